@@ -0,0 +1,95 @@
+/**
+ * Google Place Details Proxy
+ *
+ * GET /api/places/{placeId}?lat=..&lng=..
+ *
+ * Fetches one place with everything the search route leaves out: structured
+ * weekly hours, the editorial summary, review snippets and attributes
+ * (vegetarian food, outdoor seating, reservations, takeout, delivery, ...).
+ * Loaded lazily when a diner expands a card, so searches stay cheap.
+ * lat/lng are optional and only used for the distance.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { placeToRestaurant } from '@/lib/googlePlacesMappers';
+
+const GOOGLE_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
+
+const DETAILS_URL = 'https://places.googleapis.com/v1/places';
+
+const FIELD_MASK = [
+  'id',
+  'displayName',
+  'formattedAddress',
+  'location',
+  'rating',
+  'userRatingCount',
+  'priceLevel',
+  'types',
+  'photos',
+  'websiteUri',
+  'nationalPhoneNumber',
+  'regularOpeningHours',
+  'goodForChildren',
+  'editorialSummary',
+  'reviews',
+  'servesVegetarianFood',
+  'outdoorSeating',
+  'reservable',
+  'takeout',
+  'delivery',
+  'dineIn',
+  'goodForGroups',
+  'servesCocktails',
+  'accessibilityOptions',
+].join(',');
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!GOOGLE_API_KEY) {
+    return NextResponse.json(
+      { error: 'Google Places API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+    const lat = searchParams.has('lat') ? Number(searchParams.get('lat')) : undefined;
+    const lng = searchParams.has('lng') ? Number(searchParams.get('lng')) : undefined;
+
+    const response = await fetch(
+      `${DETAILS_URL}/${encodeURIComponent(id)}?languageCode=en`,
+      {
+        headers: {
+          'X-Goog-Api-Key': GOOGLE_API_KEY,
+          'X-Goog-FieldMask': FIELD_MASK,
+        },
+      }
+    );
+
+    if (response.status === 404) {
+      return NextResponse.json({ error: 'Place not found' }, { status: 404 });
+    }
+
+    if (!response.ok) {
+      console.error('Google Places API error:', response.status, await response.text());
+      return NextResponse.json(
+        { error: 'Failed to fetch from Google Places API' },
+        { status: response.status }
+      );
+    }
+
+    const place = await response.json();
+    return NextResponse.json({ restaurant: placeToRestaurant(place, lat, lng) });
+  } catch (error) {
+    console.error('Place details error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,97 +5,104 @@
  * 1. Keep the API key secure (server-side only)
  * 2. Handle CORS restrictions
  * 3. Transform the response to our Restaurant format
+ *
+ * Each selected cuisine gets its own text query (run in parallel), and each
+ * query follows nextPageToken, so a deck can hold up to MAX_RESULTS places.
+ * Results are deduped by place id. Requests without a valid lat/lng get a 400.
+ *
+ * Results are cached per rounded location, radius, cuisines and price range
+ * (see placesCache). The X-Cache header says whether a response came from
+ * the cache (HIT), from Google (MISS) or skipped it (BYPASS), and Age how
+ * old a cached response is in seconds.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Restaurant, CuisineType, PriceLevel } from '@/types';
+import { Restaurant } from '@/types';
+import { placeToRestaurant } from '@/lib/googlePlacesMappers';
+import { getPlacesCache, placesCacheKey } from '@/services/placesCache';
 
 const GOOGLE_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 
-// Map Google place types to our cuisine types
-const TYPE_TO_CUISINE: Record<string, CuisineType> = {
-  american_restaurant: 'american',
-  italian_restaurant: 'italian',
-  mexican_restaurant: 'mexican',
-  chinese_restaurant: 'chinese',
-  japanese_restaurant: 'japanese',
-  thai_restaurant: 'thai',
-  indian_restaurant: 'indian',
-  mediterranean_restaurant: 'mediterranean',
-  french_restaurant: 'french',
-  korean_restaurant: 'korean',
-  vietnamese_restaurant: 'vietnamese',
-  greek_restaurant: 'greek',
-  barbecue_restaurant: 'bbq',
-  seafood_restaurant: 'seafood',
-  pizza_restaurant: 'pizza',
-  hamburger_restaurant: 'burgers',
-  sushi_restaurant: 'sushi',
-  vegan_restaurant: 'vegan',
-  vegetarian_restaurant: 'vegan',
-  breakfast_restaurant: 'breakfast',
-  brunch_restaurant: 'breakfast',
-  cafe: 'breakfast',
-  bakery: 'dessert',
-  ice_cream_shop: 'dessert',
-  bar: 'bar',
-  wine_bar: 'bar',
-  pub: 'bar',
-  night_club: 'bar',
-};
-
-// Map Google price levels to our format
-function mapPriceLevel(priceLevel?: number): PriceLevel {
-  switch (priceLevel) {
-    case 1:
-      return '$';
-    case 2:
-      return '$$';
-    case 3:
-      return '$$$';
-    case 4:
-      return '$$$$';
-    default:
-      return '$$'; // Default to moderate
-  }
+// Most restaurants one search returns (the deck size), across all pages and queries
+const MAX_RESULTS = Number(process.env.GOOGLE_PLACES_MAX_RESULTS) || 60;
+
+// Google Places Text Search (New) returns at most 20 places per page
+const PAGE_SIZE = 20;
+
+const SEARCH_URL = 'https://places.googleapis.com/v1/places:searchText';
+
+const FIELD_MASK =
+  'places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.priceLevel,places.types,places.photos,places.websiteUri,places.nationalPhoneNumber,places.currentOpeningHours,places.goodForChildren,nextPageToken';
+
+/**
+ * Run one text query, following nextPageToken until `limit` places are in
+ * or Google has no more pages
+ */
+async function searchTextPaged(
+  apiKey: string,
+  searchBody: Record<string, unknown>,
+  limit: number
+): Promise<Record<string, unknown>[]> {
+  const places: Record<string, unknown>[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await fetch(SEARCH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': apiKey,
+        'X-Goog-FieldMask': FIELD_MASK,
+      },
+      body: JSON.stringify({
+        ...searchBody,
+        pageSize: Math.min(PAGE_SIZE, limit - places.length),
+        ...(pageToken && { pageToken }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google Places API error ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    places.push(...(data.places || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken && places.length < limit);
+
+  return places;
 }
 
-// Extract cuisines from Google place types
-function extractCuisines(types: string[]): CuisineType[] {
-  const cuisines: CuisineType[] = [];
-  for (const type of types) {
-    const cuisine = TYPE_TO_CUISINE[type];
-    if (cuisine && !cuisines.includes(cuisine)) {
-      cuisines.push(cuisine);
+/**
+ * Take places from each query in turn, so every cuisine gets a fair share
+ * of the deck, skipping any already taken
+ */
+function interleaveUnique(
+  results: Record<string, unknown>[][],
+  limit: number
+): Record<string, unknown>[] {
+  const seen = new Set<string>();
+  const places: Record<string, unknown>[] = [];
+  const longest = Math.max(0, ...results.map((r) => r.length));
+
+  for (let i = 0; i < longest && places.length < limit; i++) {
+    for (const result of results) {
+      const place = result[i];
+      if (!place || seen.has(place.id as string)) continue;
+      seen.add(place.id as string);
+      places.push(place);
+      if (places.length === limit) break;
     }
   }
-  // Default to 'american' if no specific cuisine found
-  return cuisines.length > 0 ? cuisines : ['american'];
-}
 
-// Calculate distance between two coordinates in miles
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): number {
-  const R = 3959; // Earth's radius in miles
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+  return places;
 }
 
-// Build photo URL from Google Places photo reference
-function buildPhotoUrl(photoName: string, maxWidth = 800): string {
-  return `https://places.googleapis.com/v1/${photoName}/media?maxWidthPx=${maxWidth}&key=${GOOGLE_API_KEY}`;
+/**
+ * A number within ±max degrees
+ */
+function isCoordinate(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= max;
 }
 
 export async function POST(request: NextRequest) {
@@ -115,19 +122,57 @@ export async function POST(request: NextRequest) {
       cuisineTypes = [],
       minPrice,
       maxPrice,
+      maxResults = MAX_RESULTS,
     } = body;
 
-    // Build the text query based on cuisine types
-    let textQuery = 'restaurants';
-    if (cuisineTypes.length > 0) {
-      textQuery = cuisineTypes.join(' OR ') + ' restaurant';
+    // Without a real location every search would share one cache entry
+    if (!isCoordinate(lat, 90) || !isCoordinate(lng, 180)) {
+      return NextResponse.json(
+        { error: 'lat and lng must be valid coordinates' },
+        { status: 400 }
+      );
     }
 
-    // Use Google Places Text Search (New)
-    const searchUrl = 'https://places.googleapis.com/v1/places:searchText';
+    const limit = Math.max(1, Math.min(Number(maxResults) || MAX_RESULTS, MAX_RESULTS));
 
-    const searchBody = {
-      textQuery,
+    const cache = getPlacesCache();
+    const cacheKey = placesCacheKey({
+      lat,
+      lng,
+      radius,
+      cuisineTypes,
+      minPrice,
+      maxPrice,
+      maxResults: limit,
+    });
+
+    if (cache) {
+      try {
+        const cached = await cache.get(cacheKey);
+        if (cached) {
+          return NextResponse.json(
+            { restaurants: cached.restaurants },
+            {
+              headers: {
+                'X-Cache': 'HIT',
+                Age: String(Math.floor((Date.now() - cached.storedAt) / 1000)),
+              },
+            }
+          );
+        }
+      } catch (error) {
+        // A broken cache shouldn't stop the search
+        console.error('Failed to read places cache:', error);
+      }
+    }
+
+    // One query per cuisine (run in parallel), or a single general one
+    const textQueries: string[] =
+      cuisineTypes.length > 0
+        ? cuisineTypes.map((terms: string) => `${terms} restaurant`)
+        : ['restaurants'];
+
+    const baseBody: Record<string, unknown> = {
       locationBias: {
         circle: {
           center: { latitude: lat, longitude: lng },
@@ -135,91 +180,53 @@ export async function POST(request: NextRequest) {
         },
       },
       includedType: 'restaurant',
-      maxResultCount: 20,
       languageCode: 'en',
     };
 
     // Add price level filter if specified
     if (minPrice !== undefined || maxPrice !== undefined) {
-      (searchBody as Record<string, unknown>).priceLevels = [];
       const levels = ['PRICE_LEVEL_FREE', 'PRICE_LEVEL_INEXPENSIVE', 'PRICE_LEVEL_MODERATE', 'PRICE_LEVEL_EXPENSIVE', 'PRICE_LEVEL_VERY_EXPENSIVE'];
-      const min = minPrice ?? 0;
-      const max = maxPrice ?? 4;
-      for (let i = min; i <= max; i++) {
-        (searchBody as Record<string, unknown>).priceLevels = [
-          ...((searchBody as Record<string, unknown>).priceLevels as string[]),
-          levels[i],
-        ];
-      }
+      baseBody.priceLevels = levels.slice(minPrice ?? 0, (maxPrice ?? 4) + 1);
     }
 
-    const response = await fetch(searchUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': GOOGLE_API_KEY,
-        'X-Goog-FieldMask':
-          'places.id,places.displayName,places.formattedAddress,places.location,places.rating,places.userRatingCount,places.priceLevel,places.types,places.photos,places.websiteUri,places.nationalPhoneNumber,places.currentOpeningHours,places.goodForChildren',
-      },
-      body: JSON.stringify(searchBody),
+    // Queries split the deck between them
+    const perQuery = Math.ceil(limit / textQueries.length);
+    const settled = await Promise.allSettled(
+      textQueries.map((textQuery) =>
+        searchTextPaged(GOOGLE_API_KEY, { ...baseBody, textQuery }, perQuery)
+      )
+    );
+
+    const results = settled.flatMap((outcome) => {
+      if (outcome.status === 'fulfilled') return [outcome.value];
+      console.error('Google Places API error:', outcome.reason);
+      return [];
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Google Places API error:', errorText);
+    if (results.length === 0) {
       return NextResponse.json(
         { error: 'Failed to fetch from Google Places API' },
-        { status: response.status }
+        { status: 502 }
       );
     }
 
-    const data = await response.json();
-    const places = data.places || [];
-
-    // Transform to our Restaurant format
-    const restaurants: Restaurant[] = places.map((place: Record<string, unknown>) => {
-      const location = place.location as { latitude: number; longitude: number };
-      const photos = (place.photos as Array<{ name: string }>) || [];
-      const displayName = place.displayName as { text: string };
-      const types = (place.types as string[]) || [];
-      const priceLevel = place.priceLevel as string | undefined;
-      const openingHours = place.currentOpeningHours as { weekdayDescriptions?: string[] } | undefined;
-
-      // Map Google's price level string to number
-      let priceLevelNum = 2;
-      if (priceLevel) {
-        const priceLevelMap: Record<string, number> = {
-          PRICE_LEVEL_FREE: 0,
-          PRICE_LEVEL_INEXPENSIVE: 1,
-          PRICE_LEVEL_MODERATE: 2,
-          PRICE_LEVEL_EXPENSIVE: 3,
-          PRICE_LEVEL_VERY_EXPENSIVE: 4,
-        };
-        priceLevelNum = priceLevelMap[priceLevel] ?? 2;
-      }
+    const restaurants: Restaurant[] = interleaveUnique(results, limit).map((place) =>
+      placeToRestaurant(place, lat, lng)
+    );
 
-      return {
-        id: place.id as string,
-        name: displayName?.text || 'Unknown Restaurant',
-        rating: (place.rating as number) || 4.0,
-        priceLevel: mapPriceLevel(priceLevelNum),
-        cuisines: extractCuisines(types),
-        address: (place.formattedAddress as string) || '',
-        lat: location?.latitude,
-        lng: location?.longitude,
-        photos: photos.slice(0, 5).map((p) => buildPhotoUrl(p.name)),
-        description: `${displayName?.text || 'Restaurant'} - ${extractCuisines(types).join(', ')}`,
-        familyFriendly: (place.goodForChildren as boolean) ?? true,
-        distanceMiles: location
-          ? Math.round(calculateDistance(lat, lng, location.latitude, location.longitude) * 10) / 10
-          : 0,
-        phone: place.nationalPhoneNumber as string | undefined,
-        website: place.websiteUri as string | undefined,
-        hours: openingHours?.weekdayDescriptions?.join('\n'),
-      } satisfies Restaurant;
-    });
+    // Only cache complete answers, not ones missing a failed query
+    if (cache && results.length === textQueries.length) {
+      try {
+        await cache.set(cacheKey, restaurants);
+      } catch (error) {
+        console.error('Failed to write places cache:', error);
+      }
+    }
 
-    return NextResponse.json({ restaurants });
+    return NextResponse.json(
+      { restaurants },
+      { headers: { 'X-Cache': cache ? 'MISS' : 'BYPASS' } }
+    );
   } catch (error) {
     console.error('Places search error:', error);
     return NextResponse.json(
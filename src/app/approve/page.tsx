@@ -0,0 +1,278 @@
+'use client';
+
+/**
+ * Approval Vote Page
+ *
+ * Route: /approve
+ * Purpose: Approval mode for big groups (see PartyState.votingMode).
+ * - Each diner spends up to `approvalBudget` approvals (and their vetoes)
+ *   across a grid of the whole deck, then taps Done
+ * - Pass-the-phone diners take turns; remote diners vote on their own phones
+ * - Once everyone is done, the most approved restaurant nobody vetoed wins
+ *   and every device moves on to /match
+ *
+ * The deck is still built on /swipe, which sends approval parties here.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Logo } from '@/components/common/Logo';
+import { Button } from '@/components/ui';
+import { Confetti } from '@/components/common/Confetti';
+import { PendingSyncBadge } from '@/components/common/PendingSyncBadge';
+import { ApprovalGrid } from '@/components/swipe/ApprovalGrid';
+import { OnDeckOverlay } from '@/components/swipe/OnDeckOverlay';
+import { DinerPickerOverlay } from '@/components/swipe/DinerPickerOverlay';
+import { usePartyStore, useProfileStore } from '@/stores';
+import { Profile, VoteStatus } from '@/types';
+
+export default function ApprovePage() {
+  const router = useRouter();
+  const { getProfile } = useProfileStore();
+  const {
+    party,
+    restaurants,
+    pendingVotes,
+    isHost,
+    restartVoting,
+    getDeviceDiners,
+    getInPersonDiners,
+    getLocalDiner,
+    setLocalDiner,
+    getVetoesRemaining,
+    getApprovalsRemaining,
+    setApproval,
+    finishApprovals,
+    getApprovalTally,
+    setMatch,
+  } = usePartyStore();
+
+  // Pass-the-phone diner who tapped Ready
+  const [readyFor, setReadyFor] = useState<string | null>(null);
+
+  const isSingleDiner = party?.selectedDiners.length === 1;
+  const localDiner = getLocalDiner();
+
+  // All-remote party on a device that hasn't said who it is yet
+  const needsDinerPick = !isSingleDiner && getInPersonDiners().length === 0 && !localDiner;
+  const remoteProfiles = (party?.selectedDiners || [])
+    .filter((d) => d.mode === 'remote')
+    .map((d) => getProfile(d.profileId))
+    .filter(Boolean) as Profile[];
+
+  // This device's diners take turns until each has tapped Done
+  const deviceDiners = getDeviceDiners();
+  const approvalDiner = deviceDiners.find((d) => !d.approvalsDone) || null;
+  const approvalProfile = approvalDiner ? getProfile(approvalDiner.profileId) : null;
+  const needsReady =
+    !!approvalDiner && deviceDiners.length > 1 && readyFor !== approvalDiner.profileId;
+
+  const doneCount = party?.selectedDiners.filter((d) => d.approvalsDone).length || 0;
+  const allDone = !!party && doneCount === party.selectedDiners.length;
+  const awaiting = (party?.selectedDiners || [])
+    .filter((d) => !d.approvalsDone)
+    .map((d) => getProfile(d.profileId)?.name.split(' ')[0] || 'Someone');
+
+  const tally = allDone ? getApprovalTally() : [];
+  const winner = tally[0]?.restaurant ?? null;
+  const matchedRestaurantId = party?.matchedRestaurantId;
+
+  // Swipe parties, and parties without a deck yet, belong on /swipe
+  useEffect(() => {
+    if (!party) {
+      router.push('/');
+    } else if (party.votingMode !== 'approval' || !party.deck) {
+      router.push('/swipe');
+    }
+  }, [party, router]);
+
+  // Once everyone is done, whichever device sees it first claims the winner
+  const winnerId = winner?.id ?? null;
+  useEffect(() => {
+    if (winnerId && !matchedRestaurantId) {
+      setMatch(winnerId);
+    }
+  }, [winnerId, matchedRestaurantId, setMatch]);
+
+  useEffect(() => {
+    if (!matchedRestaurantId) return;
+    const timer = setTimeout(() => router.push('/match'), 2000);
+    return () => clearTimeout(timer);
+  }, [matchedRestaurantId, router]);
+
+  if (!party) {
+    return null;
+  }
+
+  const dinerVotes: Record<string, VoteStatus> = approvalDiner
+    ? Object.fromEntries(
+        restaurants.map((r) => [r.id, party.votes[r.id]?.[approvalDiner.profileId] || 'unknown'])
+      )
+    : {};
+
+  const handleToggle = (restaurantId: string, status: 'yes' | 'veto') => {
+    if (!approvalDiner) return;
+    const current = dinerVotes[restaurantId];
+    setApproval(approvalDiner.profileId, restaurantId, current === status ? 'unknown' : status);
+  };
+
+  const handleDone = () => {
+    if (!approvalDiner) return;
+    finishApprovals(approvalDiner.profileId);
+    setReadyFor(null);
+  };
+
+  const renderContent = () => {
+    if (needsDinerPick) {
+      return (
+        <div className="relative h-[60vh]">
+          <DinerPickerOverlay profiles={remoteProfiles} onSelect={setLocalDiner} />
+        </div>
+      );
+    }
+
+    if (approvalDiner && needsReady && approvalProfile) {
+      return (
+        <div className="relative h-[60vh]">
+          <OnDeckOverlay
+            profile={approvalProfile}
+            onReady={() => setReadyFor(approvalDiner.profileId)}
+            instructions={`Pick up to ${party.approvalBudget} favorites`}
+          />
+        </div>
+      );
+    }
+
+    if (approvalDiner) {
+      const approvalsRemaining = getApprovalsRemaining(approvalDiner.profileId);
+
+      return (
+        <>
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 mb-4">
+            <span className="font-medium text-rose-500">
+              {approvalProfile?.name.split(' ')[0] || 'You'}
+            </span>
+            {': '}
+            {approvalsRemaining} of {party.approvalBudget} approvals left
+          </p>
+
+          <ApprovalGrid
+            restaurants={restaurants}
+            votes={dinerVotes}
+            approvalsRemaining={approvalsRemaining}
+            vetoesRemaining={getVetoesRemaining(approvalDiner.profileId)}
+            onToggleApproval={(id) => handleToggle(id, 'yes')}
+            onToggleVeto={(id) => handleToggle(id, 'veto')}
+          />
+
+          <div className="fixed bottom-0 left-0 right-0 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-t border-gray-100 dark:border-gray-800 safe-bottom">
+            <div className="max-w-lg mx-auto px-4 py-4">
+              <Button onClick={handleDone} fullWidth size="lg">
+                {approvalsRemaining > 0 ? `Done (${approvalsRemaining} unused)` : 'Done'}
+              </Button>
+            </div>
+          </div>
+        </>
+      );
+    }
+
+    if (!allDone) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-gray-900 dark:text-white font-medium mb-2">
+            Your picks are in
+          </p>
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            Waiting on {awaiting.join(', ')}
+          </p>
+        </div>
+      );
+    }
+
+    if (winner) {
+      return (
+        <div className="text-center py-12">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+            Winner!
+          </h2>
+          <p className="text-rose-500 font-semibold text-xl mb-2">{winner.name}</p>
+          <p className="text-gray-500 dark:text-gray-400 text-sm">
+            {tally[0].approvals} {tally[0].approvals === 1 ? 'approval' : 'approvals'}
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+          No Winner
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400 mb-6">
+          Every approved restaurant was vetoed, or nobody approved any.
+        </p>
+        {isHost() ? (
+          <Button onClick={restartVoting}>Vote Again</Button>
+        ) : (
+          <p className="text-sm text-gray-400 dark:text-gray-500">
+            Ask the host to restart voting.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
+      <Confetti isActive={!!matchedRestaurantId} />
+
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-100 dark:border-gray-800">
+        <div className="max-w-lg mx-auto px-4 py-4 flex items-center justify-between">
+          <button
+            onClick={() => router.push('/group')}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+          >
+            <svg
+              className="w-5 h-5 text-gray-600 dark:text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+          </button>
+          <Logo variant="icon" size="sm" />
+          <div className="w-9" />
+        </div>
+      </header>
+
+      <PendingSyncBadge count={pendingVotes.length} />
+
+      {/* Content */}
+      <div className="flex-1 max-w-lg mx-auto px-4 py-6 pb-32 w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="text-center mb-4">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Pick Your Favorites
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400">
+              {doneCount} of {party.selectedDiners.length} diners done
+            </p>
+          </div>
+
+          {renderContent()}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
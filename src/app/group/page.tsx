@@ -5,6 +5,8 @@
  *
  * Route: /group
  * Purpose: Select who is dining, create/edit profiles, and set attendance modes.
+ * The host also picks the consensus rule (what counts as a match).
+ * Only the host can change the party; everyone else sees it read-only.
  */
 
 import { useState, useEffect } from 'react';
@@ -15,21 +17,45 @@ import { Button, Modal, Input } from '@/components/ui';
 import { ProfileForm } from '@/components/group/ProfileForm';
 import { DinerList } from '@/components/group/DinerList';
 import { InviteModal } from '@/components/group/InviteModal';
-import { useProfileStore, usePartyStore } from '@/stores';
+import { HostControls } from '@/components/group/HostControls';
+import { PartyFiltersForm } from '@/components/group/PartyFiltersForm';
+import { ConsensusPicker } from '@/components/group/ConsensusPicker';
+import { VotingModePicker } from '@/components/group/VotingModePicker';
+import { TimeBoxPicker } from '@/components/group/TimeBoxPicker';
+import { useProfileStore, usePartyStore, usePresenceStore } from '@/stores';
 import { Profile, AttendanceMode, CuisineType } from '@/types';
 import { isValidPhone } from '@/utils/helpers';
 
 export default function GroupPage() {
   const router = useRouter();
-  const { profiles, createProfile, updateProfile, getProfileByPhone, toggleFavorite } = useProfileStore();
+  const {
+    profiles,
+    partyProfiles,
+    createProfile,
+    updateProfile,
+    getProfile,
+    getProfileByPhone,
+    toggleFavorite,
+  } = useProfileStore();
   const {
     party,
     addDiner,
     removeDiner,
+    setDinerWeight,
+    setHonoree,
     setDinerMode,
     isDinerSelected,
     setDateTime,
+    isHost,
+    setJoinsLocked,
+    restartVoting,
+    updateFilters,
+    setConsensus,
+    setVotingMode,
+    setApprovalBudget,
+    setTimeBox,
   } = usePartyStore();
+  const { presence } = usePresenceStore();
 
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
@@ -37,6 +63,9 @@ export default function GroupPage() {
   const [showAddFriendModal, setShowAddFriendModal] = useState(false);
   const [friendPhone, setFriendPhone] = useState('');
   const [friendPhoneError, setFriendPhoneError] = useState('');
+  const [showFiltersModal, setShowFiltersModal] = useState(false);
+
+  const canManage = isHost();
 
   // Get selected diner IDs and modes
   const selectedIds = party?.selectedDiners.map((d) => d.profileId) || [];
@@ -52,7 +81,17 @@ export default function GroupPage() {
     }
   }, [party, router]);
 
+  const selectedProfiles = selectedIds.map((id) => getProfile(id)).filter(Boolean) as Profile[];
+
+  // The address book plus diners who joined from their own devices
+  const listedProfiles = [
+    ...profiles,
+    ...partyProfiles.filter((p) => selectedIds.includes(p.id)),
+  ];
+
   const handleToggleSelect = (profileId: string) => {
+    if (!canManage) return;
+
     if (isDinerSelected(profileId)) {
       removeDiner(profileId);
     } else {
@@ -220,58 +259,62 @@ export default function GroupPage() {
 
           {/* Diner list */}
           <DinerList
-            profiles={profiles}
+            profiles={listedProfiles}
             selectedIds={selectedIds}
             modesById={modesById}
             onToggleSelect={handleToggleSelect}
             onModeChange={handleModeChange}
             onEdit={handleEditProfile}
             onToggleFavorite={toggleFavorite}
+            readOnly={!canManage}
+            presence={presence}
           />
 
           {/* Add buttons */}
-          <div className="mt-6 flex gap-3">
-            <Button
-              variant="secondary"
-              onClick={handleCreateProfile}
-              fullWidth
-            >
-              <svg
-                className="w-5 h-5 mr-2"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+          {canManage && (
+            <div className="mt-6 flex gap-3">
+              <Button
+                variant="secondary"
+                onClick={handleCreateProfile}
+                fullWidth
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                />
-              </svg>
-              New Profile
-            </Button>
-            <Button
-              variant="secondary"
-              onClick={() => setShowAddFriendModal(true)}
-              fullWidth
-            >
-              <svg
-                className="w-5 h-5 mr-2"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                  />
+                </svg>
+                New Profile
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => setShowAddFriendModal(true)}
+                fullWidth
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
-                />
-              </svg>
-              Add by Phone
-            </Button>
-          </div>
+                <svg
+                  className="w-5 h-5 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
+                  />
+                </svg>
+                Add by Phone
+              </Button>
+            </div>
+          )}
 
           {/* Selection count */}
           {selectedIds.length > 0 && (
@@ -285,6 +328,54 @@ export default function GroupPage() {
               </span>
             </motion.div>
           )}
+
+          {/* Party settings */}
+          {selectedProfiles.length > 0 && (
+            <section className="mt-8">
+              <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">
+                Party Settings
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-2xl p-4 shadow-sm space-y-5">
+                <VotingModePicker
+                  votingMode={party.votingMode}
+                  approvalBudget={party.approvalBudget}
+                  dinerCount={selectedProfiles.length}
+                  hasVotes={Object.keys(party.votes).length > 0}
+                  readOnly={!canManage}
+                  onModeChange={setVotingMode}
+                  onBudgetChange={setApprovalBudget}
+                />
+                {party.votingMode === 'swipe' && (
+                  <ConsensusPicker
+                    consensus={party.consensus}
+                    dinerCount={selectedProfiles.length}
+                    readOnly={!canManage}
+                    onChange={setConsensus}
+                  />
+                )}
+                {party.votingMode === 'swipe' && (
+                  <TimeBoxPicker
+                    timeBox={party.timeBox}
+                    readOnly={!canManage}
+                    onChange={setTimeBox}
+                  />
+                )}
+                <HostControls
+                  diners={selectedProfiles}
+                  selections={party.selectedDiners}
+                  hostProfileId={party.hostProfileId}
+                  joinsLocked={party.joinsLocked}
+                  readOnly={!canManage}
+                  onToggleLock={setJoinsLocked}
+                  onRemoveDiner={removeDiner}
+                  onWeightChange={setDinerWeight}
+                  onToggleHonoree={setHonoree}
+                  onRestartVoting={restartVoting}
+                  onChangeFilters={() => setShowFiltersModal(true)}
+                />
+              </div>
+            </section>
+          )}
         </motion.div>
       </div>
 
@@ -299,14 +390,16 @@ export default function GroupPage() {
           >
             Swipe to Dine
           </Button>
-          <Button
-            onClick={handleBrowseOnly}
-            variant="secondary"
-            fullWidth
-            size="lg"
-          >
-            Just Browsing
-          </Button>
+          {canManage && (
+            <Button
+              onClick={handleBrowseOnly}
+              variant="secondary"
+              fullWidth
+              size="lg"
+            >
+              Just Browsing
+            </Button>
+          )}
         </div>
       </div>
 
@@ -343,6 +436,22 @@ export default function GroupPage() {
         />
       </Modal>
 
+      {/* Filters Modal */}
+      <Modal
+        isOpen={showFiltersModal}
+        onClose={() => setShowFiltersModal(false)}
+        title="Change Filters"
+      >
+        <PartyFiltersForm
+          initialFilters={party.filters}
+          onSubmit={(filters) => {
+            updateFilters(filters);
+            setShowFiltersModal(false);
+          }}
+          onCancel={() => setShowFiltersModal(false)}
+        />
+      </Modal>
+
       {/* Add Friend Modal */}
       <Modal
         isOpen={showAddFriendModal}
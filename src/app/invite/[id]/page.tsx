@@ -5,6 +5,8 @@
  *
  * Route: /invite/[id]
  * Purpose: Allow users to accept an invite and join a party.
+ * Parties that are decided, expired or cancelled can't be joined; once joins
+ * are locked only diners already in the party can come back.
  */
 
 import { useState, useEffect } from 'react';
@@ -15,15 +17,48 @@ import { Button, Modal } from '@/components/ui';
 import { Avatar } from '@/components/ui';
 import { ProfileForm } from '@/components/group/ProfileForm';
 import { usePartyStore, useProfileStore } from '@/stores';
-import { Profile, CuisineType } from '@/types';
+import { Profile, CuisineType, PartyState, PARTY_STATUS_TRANSITIONS } from '@/types';
 import { formatDateTime } from '@/utils/helpers';
 
+/**
+ * Why a party can no longer be joined (null while it's open, or locked to
+ * a visitor who's already one of its diners)
+ */
+function getClosedNotice(
+  party: PartyState,
+  canRejoin: boolean
+): { title: string; message: string } | null {
+  if (party.joinsLocked && !canRejoin && PARTY_STATUS_TRANSITIONS[party.status].length > 0) {
+    return { title: 'Party Locked', message: 'The host has stopped new diners from joining.' };
+  }
+
+  switch (party.status) {
+    case 'decided': {
+      const restaurant = party.matchedRestaurantId
+        ? party.deck?.restaurants[party.matchedRestaurantId]
+        : null;
+      return {
+        title: 'Already Decided',
+        message: restaurant
+          ? `This dinner already picked ${restaurant.name}.`
+          : 'This dinner already picked a restaurant.',
+      };
+    }
+    case 'expired':
+      return { title: 'Session Expired', message: 'This session has expired.' };
+    case 'cancelled':
+      return { title: 'Session Cancelled', message: 'The host cancelled this session.' };
+    default:
+      return null;
+  }
+}
+
 export default function InvitePage() {
   const router = useRouter();
   const params = useParams();
   const inviteId = params.id as string;
 
-  const { loadParty, party, addDiner } = usePartyStore();
+  const { loadParty, party, joinParty } = usePartyStore();
   const { profiles, createProfile, getProfile } = useProfileStore();
 
   const [isLoading, setIsLoading] = useState(true);
@@ -33,13 +68,20 @@ export default function InvitePage() {
 
   // Load party on mount
   useEffect(() => {
-    if (inviteId) {
-      const loadedParty = loadParty(inviteId);
+    if (!inviteId) return;
+
+    let cancelled = false;
+    loadParty(inviteId).then((loadedParty) => {
+      if (cancelled) return;
       if (!loadedParty) {
-        setError('Invite not found or has expired');
+        setError('Invite not found');
       }
       setIsLoading(false);
-    }
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, [inviteId, loadParty]);
 
   // Get host profile
@@ -47,6 +89,12 @@ export default function InvitePage() {
     ? getProfile(party.hostProfileId)
     : null;
 
+  // Once joins are locked, only this device's profiles already in the party can pick up again
+  const joinableProfiles = party?.joinsLocked
+    ? profiles.filter((p) => party.selectedDiners.some((d) => d.profileId === p.id))
+    : profiles;
+  const closedNotice = party ? getClosedNotice(party, joinableProfiles.length > 0) : null;
+
   const handleSelectExistingProfile = (profileId: string) => {
     setSelectedProfileId(profileId);
   };
@@ -72,8 +120,8 @@ export default function InvitePage() {
       return;
     }
 
-    // Add this profile to the party as a remote diner
-    addDiner(selectedProfileId, 'remote');
+    // Add this profile as a remote diner; this device now votes as them
+    joinParty(selectedProfileId);
 
     // Navigate to the swipe page
     router.push('/instructions');
@@ -111,7 +159,7 @@ export default function InvitePage() {
             Invite Not Found
           </h2>
           <p className="text-gray-500 dark:text-gray-400 mb-6">
-            {error || 'This invite link may have expired or been deleted.'}
+            {error || 'This invite link may have been deleted.'}
           </p>
           <Button onClick={() => router.push('/')}>
             Start Your Own Session
@@ -121,6 +169,50 @@ export default function InvitePage() {
     );
   }
 
+  if (closedNotice) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+        <Logo size="md" className="mb-8" />
+        <div className="text-center">
+          <div className="w-16 h-16 mx-auto bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mb-4">
+            <svg
+              className="w-8 h-8 text-gray-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+              />
+            </svg>
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+            {closedNotice.title}
+          </h2>
+          <p className="text-gray-500 dark:text-gray-400 mb-6">
+            {closedNotice.message}
+          </p>
+          <div className="flex flex-col gap-3">
+            {party.status === 'decided' && (
+              <Button onClick={() => router.push('/match')}>
+                See the Pick
+              </Button>
+            )}
+            <Button
+              variant={party.status === 'decided' ? 'secondary' : 'primary'}
+              onClick={() => router.push('/')}
+            >
+              Start Your Own Session
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900">
       {/* Header */}
@@ -217,7 +309,7 @@ export default function InvitePage() {
               Select Your Profile
             </h2>
 
-            {profiles.length === 0 ? (
+            {joinableProfiles.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-gray-500 dark:text-gray-400 mb-4">
                   No profiles found. Create one to join!
@@ -228,7 +320,7 @@ export default function InvitePage() {
               </div>
             ) : (
               <div className="space-y-3">
-                {profiles.map((profile) => (
+                {joinableProfiles.map((profile) => (
                   <button
                     key={profile.id}
                     onClick={() => handleSelectExistingProfile(profile.id)}
@@ -270,25 +362,27 @@ export default function InvitePage() {
                   </button>
                 ))}
 
-                <button
-                  onClick={handleCreateProfile}
-                  className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-rose-500 hover:text-rose-500 transition-colors"
-                >
-                  <svg
-                    className="w-5 h-5"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+                {!party.joinsLocked && (
+                  <button
+                    onClick={handleCreateProfile}
+                    className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:border-rose-500 hover:text-rose-500 transition-colors"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                    />
-                  </svg>
-                  Create New Profile
-                </button>
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                      />
+                    </svg>
+                    Create New Profile
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -15,14 +15,17 @@ import { Logo } from '@/components/common/Logo';
 import { Button } from '@/components/ui';
 import { PhotoCarousel } from '@/components/common/PhotoCarousel';
 import { Confetti } from '@/components/common/Confetti';
-import { usePartyStore } from '@/stores';
+import { RestaurantDetails } from '@/components/swipe/RestaurantDetails';
+import { usePartyStore, useRestaurantDetailsStore } from '@/stores';
 import { openInMaps, downloadIcsFile, copyToClipboard, generateInviteLink } from '@/utils/helpers';
 
 export default function MatchPage() {
   const router = useRouter();
   const { party, getMatchedRestaurant } = usePartyStore();
+  const { loadDetails, withDetails, isLoading: isLoadingDetails } = useRestaurantDetailsStore();
   const [showConfetti, setShowConfetti] = useState(true);
   const [linkCopied, setLinkCopied] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
 
   const restaurant = getMatchedRestaurant();
 
@@ -208,10 +211,29 @@ export default function MatchPage() {
             </button>
 
             {/* Description */}
-            <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed mb-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400 leading-relaxed mb-3">
               {restaurant.description}
             </p>
 
+            <button
+              onClick={() => {
+                if (!showDetails) loadDetails(restaurant);
+                setShowDetails(!showDetails);
+              }}
+              className="text-sm font-medium text-rose-500 hover:underline mb-6"
+            >
+              {showDetails ? 'Less info' : 'Hours, reviews & more'}
+            </button>
+
+            {showDetails && (
+              <div className="mb-6">
+                <RestaurantDetails
+                  restaurant={withDetails(restaurant)}
+                  isLoading={isLoadingDetails(restaurant.id)}
+                />
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="space-y-3">
               <Button onClick={handleOpenMaps} fullWidth>
@@ -5,9 +5,13 @@
  *
  * Route: /shortlist
  * Purpose: View and select from restaurants on the shortlist.
- * - Single diner: Shows restaurants with "maybe" votes
- * - Multi-diner: Shows restaurants with unanimous "maybe" votes
+ * - Single diner: Shows restaurants with "maybe" or "yes" votes (none vetoed)
+ * - Multi-diner: Shows restaurants that meet the party's consensus policy
+ * - Strong yeses rank first
  * - Elimination mode: Users take turns eliminating until one remains
+ * - Ranked choice: Every diner privately ranks the shortlist (passing the
+ *   phone in person, or on their own device) and instant runoff picks the winner
+ * - Diners can change earlier votes (see /votes)
  */
 
 import { useEffect, useState } from 'react';
@@ -15,21 +19,43 @@ import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
 import { Logo } from '@/components/common/Logo';
-import { Button } from '@/components/ui';
+import { Avatar, Button, Modal } from '@/components/ui';
 import { Confetti } from '@/components/common/Confetti';
 import { WheelSpinner } from '@/components/swipe/WheelSpinner';
+import { MyVotesList } from '@/components/swipe/MyVotesList';
+import { RankedChoiceBallot } from '@/components/swipe/RankedChoiceBallot';
+import { RankedChoiceResults } from '@/components/swipe/RankedChoiceResults';
 import { usePartyStore, useProfileStore } from '@/stores';
-import { Restaurant, CUISINE_LABELS, Profile } from '@/types';
+import { Restaurant, CUISINE_LABELS, Profile, VoteStatus } from '@/types';
+import { describeConsensus } from '@/utils/helpers';
 
-type ShortlistPhase = 'view' | 'elimination' | 'spinWheel' | 'winner';
+type ShortlistPhase = 'view' | 'elimination' | 'rankedChoice' | 'spinWheel' | 'winner';
 
 export default function ShortlistPage() {
   const router = useRouter();
-  const { party, getRestaurantsWithMaybeVotes, getRestaurantsWithUnanimousMaybes, setMatch, getInPersonDiners } = usePartyStore();
+  const {
+    party,
+    getRestaurantsWithMaybeVotes,
+    getRestaurantsWithConsensus,
+    setMatch,
+    getInPersonDiners,
+    setStatus,
+    getDeviceDiners,
+    getSeenRestaurants,
+    changeVote,
+    checkForMatch,
+    isMatchDecidedByServer,
+    submitRanking,
+    getRankedChoiceResult,
+  } = usePartyStore();
   const { getProfile } = useProfileStore();
   const [selectedRestaurant, setSelectedRestaurant] = useState<Restaurant | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
   const [phase, setPhase] = useState<ShortlistPhase>('view');
+  const [showMyVotes, setShowMyVotes] = useState(false);
+
+  // Ranked choice: the pass-the-phone diner who tapped Ready
+  const [ballotReadyFor, setBallotReadyFor] = useState<string | null>(null);
 
   // Elimination mode state
   const [eliminatedIds, setEliminatedIds] = useState<Set<string>>(new Set());
@@ -42,7 +68,7 @@ export default function ShortlistPage() {
 
   // Get appropriate restaurants based on mode
   const maybeRestaurants = isMultiDinerInPerson
-    ? getRestaurantsWithUnanimousMaybes()
+    ? getRestaurantsWithConsensus()
     : getRestaurantsWithMaybeVotes();
 
   // Filter out eliminated restaurants
@@ -53,12 +79,37 @@ export default function ShortlistPage() {
     ? inPersonDiners.map(d => getProfile(d.profileId)).filter(Boolean) as Profile[]
     : party?.selectedDiners.map(d => getProfile(d.profileId)).filter(Boolean) as Profile[] || [];
 
+  const countStrongYeses = (restaurantId: string) =>
+    Object.values(party?.votes[restaurantId] || {}).filter((v) => v === 'yes').length;
+
   const currentEliminator = eliminatorProfiles[currentEliminatorIndex % eliminatorProfiles.length];
 
   const profile = party?.selectedDiners[0]
     ? getProfile(party.selectedDiners[0].profileId)
     : null;
 
+  const isBrowseOnly = isSingleDiner && profile?.name === 'Just Browsing';
+
+  const deviceProfiles = getDeviceDiners()
+    .map((d) => getProfile(d.profileId))
+    .filter(Boolean) as Profile[];
+
+  // Ranked choice: this device's diners ballot first, then everyone else's come in
+  const hasRanked = (profileId: string) =>
+    !!party?.selectedDiners.find((d) => d.profileId === profileId)?.ranking;
+  const nextBallotProfile = deviceProfiles.find((p) => !hasRanked(p.id)) || null;
+  const rankedCount = party?.selectedDiners.filter((d) => d.ranking).length || 0;
+  const awaitingBallots = (party?.selectedDiners || [])
+    .filter((d) => !d.ranking)
+    .map((d) => getProfile(d.profileId)?.name.split(' ')[0] || 'Someone');
+  const rankedChoiceResult = getRankedChoiceResult(maybeRestaurants.map((r) => r.id));
+  const rankedChoiceWinner = rankedChoiceResult
+    ? maybeRestaurants.find((r) => r.id === rankedChoiceResult.winnerId) || null
+    : null;
+
+  // A match can also be declared by another diner's device or by the server
+  const matchedElsewhere = !!party?.matchedRestaurantId && !showConfetti;
+
   // Redirect if no party
   useEffect(() => {
     if (!party) {
@@ -66,6 +117,17 @@ export default function ShortlistPage() {
     }
   }, [party, router]);
 
+  useEffect(() => {
+    setStatus('shortlisting');
+  }, [setStatus]);
+
+  // Follow a remote match to the celebration page
+  useEffect(() => {
+    if (!matchedElsewhere) return;
+    const timer = setTimeout(() => router.push('/match'), 2000);
+    return () => clearTimeout(timer);
+  }, [matchedElsewhere, router]);
+
   // Check if we have a winner (only 1 restaurant left in elimination mode)
   useEffect(() => {
     if (phase === 'elimination' && activeRestaurants.length === 1) {
@@ -94,6 +156,23 @@ export default function ShortlistPage() {
     }
   };
 
+  // A late change of heart is re-checked against the consensus policy, like a swipe
+  const handleChangeVote = (dinerId: string, restaurantId: string, status: VoteStatus) => {
+    if (!changeVote(dinerId, restaurantId, status)) return;
+
+    // When the server detects matches, it arrives via party.matchedRestaurantId
+    if (!isMultiDinerInPerson && !isBrowseOnly && !isMatchDecidedByServer()) {
+      if (checkForMatch(restaurantId)) {
+        setShowMyVotes(false);
+        setMatch(restaurantId);
+        setShowConfetti(true);
+        setTimeout(() => {
+          router.push('/match');
+        }, 1500);
+      }
+    }
+  };
+
   const handleContinueSwiping = () => {
     router.push('/swipe');
   };
@@ -110,11 +189,23 @@ export default function ShortlistPage() {
     setCurrentEliminatorIndex(prev => prev + 1);
   };
 
+  const handleStartRankedChoice = () => {
+    setPhase('rankedChoice');
+    setBallotReadyFor(null);
+  };
+
+  const handleSubmitRanking = (restaurantIds: string[]) => {
+    if (!nextBallotProfile) return;
+    submitRanking(nextBallotProfile.id, restaurantIds);
+    setBallotReadyFor(null);
+  };
+
   const handleSpinWheel = () => {
     setPhase('spinWheel');
   };
 
-  const handleWheelComplete = (restaurant: Restaurant) => {
+  // Wheel and ranked choice both end here
+  const handleDeclareWinner = (restaurant: Restaurant) => {
     setSelectedRestaurant(restaurant);
     setMatch(restaurant.id);
     setShowConfetti(true);
@@ -138,12 +229,104 @@ export default function ShortlistPage() {
         </header>
         <WheelSpinner
           restaurants={activeRestaurants}
-          onComplete={handleWheelComplete}
+          onComplete={handleDeclareWinner}
         />
       </div>
     );
   }
 
+  // Ranked choice phase
+  if (phase === 'rankedChoice') {
+    // Pass-the-phone diners confirm it's their turn so ballots stay private
+    const needsReady =
+      !!nextBallotProfile && deviceProfiles.length > 1 && ballotReadyFor !== nextBallotProfile.id;
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
+        <Confetti isActive={matchedElsewhere} />
+
+        <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-100 dark:border-gray-800">
+          <div className="max-w-lg mx-auto px-4 py-4 flex items-center justify-between">
+            <button
+              onClick={() => setPhase('view')}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+            >
+              <svg
+                className="w-5 h-5 text-gray-600 dark:text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+            </button>
+            <Logo variant="icon" size="sm" />
+            <div className="w-9" />
+          </div>
+        </header>
+
+        <div className="flex-1 max-w-lg mx-auto px-4 py-6 w-full">
+          <div className="text-center mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              Ranked Choice
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400">
+              {rankedCount} of {party.selectedDiners.length} diners have ranked
+            </p>
+          </div>
+
+          {needsReady && nextBallotProfile ? (
+            <div className="text-center py-8">
+              <Avatar
+                src={nextBallotProfile.avatar}
+                alt={nextBallotProfile.name}
+                size="xl"
+                className="mx-auto ring-4 ring-rose-500 mb-4"
+              />
+              <p className="text-gray-500 dark:text-gray-400 text-sm uppercase tracking-wide mb-2">
+                Pass the phone to
+              </p>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+                {nextBallotProfile.name}
+              </h2>
+              <Button onClick={() => setBallotReadyFor(nextBallotProfile.id)} size="lg">
+                I&apos;m Ready
+              </Button>
+            </div>
+          ) : nextBallotProfile ? (
+            <RankedChoiceBallot
+              key={nextBallotProfile.id}
+              diner={nextBallotProfile}
+              restaurants={maybeRestaurants}
+              onSubmit={handleSubmitRanking}
+            />
+          ) : rankedChoiceResult && rankedChoiceWinner ? (
+            <div className="space-y-6">
+              <RankedChoiceResults result={rankedChoiceResult} restaurants={maybeRestaurants} />
+              <Button onClick={() => handleDeclareWinner(rankedChoiceWinner)} fullWidth size="lg">
+                Go with {rankedChoiceWinner.name}!
+              </Button>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-900 dark:text-white font-medium mb-2">
+                Your ballot is in
+              </p>
+              <p className="text-gray-500 dark:text-gray-400 text-sm">
+                Waiting on {awaitingBallots.join(', ')}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Winner phase
   if (phase === 'winner' && selectedRestaurant) {
     return (
@@ -162,7 +345,20 @@ export default function ShortlistPage() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
-      <Confetti isActive={showConfetti} />
+      <Confetti isActive={showConfetti || matchedElsewhere} />
+
+      <Modal
+        isOpen={showMyVotes}
+        onClose={() => setShowMyVotes(false)}
+        title="Change My Votes"
+      >
+        <MyVotesList
+          diners={deviceProfiles}
+          restaurants={getSeenRestaurants()}
+          votes={party.votes}
+          onChangeVote={handleChangeVote}
+        />
+      </Modal>
 
       {/* Header */}
       <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-100 dark:border-gray-800">
@@ -210,11 +406,18 @@ export default function ShortlistPage() {
                 </p>
               </>
             ) : (
-              <p className="text-gray-500 dark:text-gray-400">
-                {isMultiDinerInPerson
-                  ? `Everyone's unanimous picks (${maybeRestaurants.length})`
-                  : `${profile?.name ? `${profile.name}'s` : 'Your'} top picks (${maybeRestaurants.length})`}
-              </p>
+              <>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {isMultiDinerInPerson
+                    ? `Your group's picks (${maybeRestaurants.length})`
+                    : `${profile?.name ? `${profile.name}'s` : 'Your'} top picks (${maybeRestaurants.length})`}
+                </p>
+                {isMultiDinerInPerson && (
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                    {describeConsensus(party.consensus)}
+                  </p>
+                )}
+              </>
             )}
           </div>
 
@@ -240,10 +443,18 @@ export default function ShortlistPage() {
               </h3>
               <p className="text-gray-500 dark:text-gray-400 mb-6">
                 {isMultiDinerInPerson
-                  ? "No unanimous matches yet. Keep swiping together!"
+                  ? "No matches yet. Keep swiping together!"
                   : "Swipe right on restaurants you'd consider to build your shortlist."}
               </p>
-              <Button onClick={handleContinueSwiping}>Continue Swiping</Button>
+              <div className="flex flex-col items-center gap-3">
+                <Button onClick={handleContinueSwiping}>Continue Swiping</Button>
+                <button
+                  onClick={() => setShowMyVotes(true)}
+                  className="text-rose-500 text-sm font-medium hover:underline"
+                >
+                  Change My Votes
+                </button>
+              </div>
             </div>
           ) : (
             <div className="space-y-3">
@@ -318,6 +529,11 @@ export default function ShortlistPage() {
                           <span className="text-xs text-gray-400">
                             • {restaurant.distanceMiles} mi
                           </span>
+                          {countStrongYeses(restaurant.id) > 0 && (
+                            <span className="text-xs font-medium text-blue-500">
+                              • ★ {countStrongYeses(restaurant.id)} strong yes
+                            </span>
+                          )}
                         </div>
                       </div>
 
@@ -421,6 +637,19 @@ export default function ShortlistPage() {
                   </Button>
                 )}
 
+                {/* Ranked choice: everyone ranks the shortlist privately */}
+                {!isSingleDiner && maybeRestaurants.length > 1 && (
+                  <Button
+                    onClick={handleStartRankedChoice}
+                    variant="secondary"
+                    fullWidth
+                  >
+                    {rankedCount > 0
+                      ? `Ranked Choice Vote (${rankedCount}/${party.selectedDiners.length} ranked)`
+                      : 'Ranked Choice Vote'}
+                  </Button>
+                )}
+
                 {/* Spin wheel option */}
                 {maybeRestaurants.length > 1 && (
                   <Button
@@ -432,13 +661,22 @@ export default function ShortlistPage() {
                   </Button>
                 )}
 
-                <Button
-                  onClick={handleContinueSwiping}
-                  variant="secondary"
-                  fullWidth
-                >
-                  Keep Swiping
-                </Button>
+                <div className="flex gap-3">
+                  <Button
+                    onClick={() => setShowMyVotes(true)}
+                    variant="secondary"
+                    fullWidth
+                  >
+                    Change My Votes
+                  </Button>
+                  <Button
+                    onClick={handleContinueSwiping}
+                    variant="secondary"
+                    fullWidth
+                  >
+                    Keep Swiping
+                  </Button>
+                </div>
               </>
             ) : phase === 'elimination' ? (
               // Elimination mode CTAs
@@ -5,51 +5,119 @@
  *
  * Route: /swipe
  * Purpose: Main swiping interface with cards and consensus tracking.
+ * Swipe left = no, right = maybe, up = strong yes. Each diner also gets
+ * a limited number of hard vetoes (VETOES_PER_DINER) from the vote buttons.
+ * The last few swipes can be undone (button or shake) until a match is declared.
  *
  * Multi-diner in-person mode:
  * - One person swipes through all restaurants in their batch
  * - Then passes the phone to the next person
- * - Restaurants where everyone votes "maybe" go to shortlist
+ * - Restaurants that meet the party's consensus policy (unanimous "maybe"
+ *   or "yes" by default) go to shortlist
  * - After all diners complete a round, see results and option to continue or go to shortlist
+ * - Restaurants a vote or two short can be sent back to just the holdouts to reconsider
+ *
+ * Remote mode:
+ * - Each device votes only as its own diner (picked on join, or on first swipe)
+ * - Other diners' votes arrive live, and whichever device casts the vote
+ *   that meets the consensus policy declares the match
+ *
+ * Every diner swipes the same deck: the host's device ranks it once and
+ * saves it with the party, and other devices wait for it to arrive.
+ * Parties in approval mode move on to /approve once the deck is ready.
+ * The host can restart voting or change filters from the party settings.
+ *
+ * Time box (optional, see PartyState.timeBox):
+ * - A countdown shows while swiping
+ * - When it runs out, everyone moves on to the shortlist, or if nothing is
+ *   on it, the closest near miss is declared the match (a single diner
+ *   spins the wheel over the next few unseen cards instead)
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Logo } from '@/components/common/Logo';
-import { Button } from '@/components/ui';
+import { Button, Modal } from '@/components/ui';
 import { SwipeCard } from '@/components/swipe/SwipeCard';
 import { VoteButtons } from '@/components/swipe/VoteButtons';
 import { VoterStatus } from '@/components/swipe/VoterStatus';
 import { OnDeckOverlay } from '@/components/swipe/OnDeckOverlay';
+import { DinerPickerOverlay } from '@/components/swipe/DinerPickerOverlay';
 import { WheelSpinner } from '@/components/swipe/WheelSpinner';
+import { NearMissList } from '@/components/swipe/NearMissList';
+import { DeckAdjustmentNote } from '@/components/swipe/DeckAdjustmentNote';
+import { CountdownBadge } from '@/components/swipe/CountdownBadge';
+import { HostControls } from '@/components/group/HostControls';
+import { TimeBoxPicker } from '@/components/group/TimeBoxPicker';
+import { PartyFiltersForm } from '@/components/group/PartyFiltersForm';
 import { StarBurst } from '@/components/common/StarBurst';
 import { Confetti } from '@/components/common/Confetti';
-import { usePartyStore, useProfileStore, useLocationStore } from '@/stores';
+import { PendingSyncBadge } from '@/components/common/PendingSyncBadge';
+import {
+  usePartyStore,
+  useProfileStore,
+  useLocationStore,
+  usePresenceStore,
+  useRestaurantDetailsStore,
+} from '@/stores';
 import { searchRestaurantsAsync, searchRestaurants } from '@/services/restaurantService';
-import { Profile, Restaurant, VoteStatus, DEFAULT_FILTERS } from '@/types';
+import { Profile, Restaurant, VoteStatus, NearMiss, DEFAULT_FILTERS } from '@/types';
+import { describeConsensus, getDeadline, onShake } from '@/utils/helpers';
 
-type SwipePhase = 'swiping' | 'inPersonHandoff' | 'noMatch' | 'spinWheel' | 'matched' | 'roundEnd';
+type SwipePhase =
+  | 'swiping'
+  | 'inPersonHandoff'
+  | 'noMatch'
+  | 'spinWheel'
+  | 'matched'
+  | 'roundEnd'
+  | 'reconsider';
 
-// Restaurants per round for multi-diner mode
+// Restaurants per round for multi-diner mode (and between deck re-rankings otherwise)
 const RESTAURANTS_PER_ROUND = 10;
 // Minimum swipes before showing shortlist option for single diner
 const MIN_SWIPES_FOR_SHORTLIST = 10;
+// Unseen cards a single diner's wheel spins over when time runs out with an empty shortlist
+const FALLBACK_WHEEL_SIZE = 6;
+
+/**
+ * The best-ranked cards a diner hasn't swiped yet
+ */
+function getFallbackPicks(restaurants: Restaurant[], swipeCount: number): Restaurant[] {
+  return restaurants.slice(swipeCount, swipeCount + FALLBACK_WHEEL_SIZE);
+}
 
 export default function SwipePage() {
   const router = useRouter();
   const { profiles, getProfile } = useProfileStore();
   const { location } = useLocationStore();
+  const { presence } = usePresenceStore();
   const {
     party,
     restaurants,
-    setRestaurants,
+    pendingVotes,
+    localDinerId,
+    isHost,
+    isPartyOpen,
+    setJoinsLocked,
+    restartVoting,
+    updateFilters,
+    removeDiner,
+    setDinerWeight,
+    setHonoree,
+    setDeck,
     getCurrentRestaurant,
     advanceToNextRestaurant,
+    adaptDeck,
     vote,
     getVote,
     getAllVotesForRestaurant,
+    getVetoesRemaining,
+    canUndo,
+    undoLastSwipe,
     checkForMatch,
+    isMatchDecidedByServer,
     setMatch,
     getCurrentInPersonDiner,
     advanceToNextInPersonDiner,
@@ -57,16 +125,46 @@ export default function SwipePage() {
     hasCurrentInPersonDinerFinishedRound,
     getInPersonDiners,
     getRestaurantsWithMaybeVotes,
-    getRestaurantsWithUnanimousMaybes,
+    getRestaurantsWithConsensus,
+    getLocalDiner,
+    setLocalDiner,
+    getDeviceDiners,
+    setStatus,
+    getNearMisses,
+    askToReconsider,
+    getReconsiderQueue,
+    answerReconsider,
+    setTimeBox,
   } = usePartyStore();
+  const { loadDetails, withDetails, isLoading: isLoadingDetails } = useRestaurantDetailsStore();
 
   const [phase, setPhase] = useState<SwipePhase>('swiping');
   const [showStarBurst, setShowStarBurst] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
   const [isInPersonReady, setIsInPersonReady] = useState(false);
   const [currentCardKey, setCurrentCardKey] = useState(0);
+  const [voteNotice, setVoteNotice] = useState<string | null>(null);
+  const [wheelPicks, setWheelPicks] = useState<Restaurant[] | null>(null); // Instead of the shortlist
   const [isLoading, setIsLoading] = useState(false);
   const [roundStartIndex, setRoundStartIndex] = useState(0);
+  const [showPartySettings, setShowPartySettings] = useState(false);
+  const [showFiltersModal, setShowFiltersModal] = useState(false);
+  // Pass-the-phone diner who tapped Ready to reconsider
+  const [reconsiderReadyFor, setReconsiderReadyFor] = useState<string | null>(null);
+  // Card showing its full details (loaded the first time it's expanded)
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // A restart or a new deck (from any device) starts this page over
+  const resetKey = `${party?.votingResetAt ?? 0}:${party?.deck?.createdAt ?? 0}`;
+  const [lastResetKey, setLastResetKey] = useState(resetKey);
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setPhase('swiping');
+    setRoundStartIndex(0);
+    setIsInPersonReady(false);
+  }
+
+  const canManage = isHost();
 
   // Get current restaurant
   const currentRestaurant = getCurrentRestaurant();
@@ -76,9 +174,12 @@ export default function SwipePage() {
     .map((d) => getProfile(d.profileId))
     .filter(Boolean) as Profile[];
 
+  // Diner this device votes as - a joined remote device skips the pass-the-phone flow
+  const localDiner = getLocalDiner();
+
   // Get in-person diners
-  const inPersonDiners = getInPersonDiners();
-  const currentInPersonDiner = getCurrentInPersonDiner();
+  const inPersonDiners = localDiner ? [] : getInPersonDiners();
+  const currentInPersonDiner = localDiner ? null : getCurrentInPersonDiner();
   const currentInPersonProfile = currentInPersonDiner
     ? getProfile(currentInPersonDiner.profileId)
     : null;
@@ -89,10 +190,32 @@ export default function SwipePage() {
   // Mode detection
   const isSingleDiner = party?.selectedDiners.length === 1;
   const isMultiDinerInPerson = !isSingleDiner && inPersonDiners.length > 1;
+
+  // All-remote party on a device that hasn't said who it is yet
+  const needsDinerPick = !isSingleDiner && inPersonDiners.length === 0 && !localDiner;
+  // Diner the next vote counts for:
+  // - In-person mode: whoever is holding the phone
+  // - Single diner mode: the only diner
+  // - Remote mode: this device's own diner (null until picked)
+  const votingDinerId =
+    inPersonDiners.length > 0 && currentInPersonDiner
+      ? currentInPersonDiner.profileId
+      : isSingleDiner
+        ? party?.selectedDiners[0].profileId ?? null
+        : localDiner?.profileId ?? null;
+  const vetoesRemaining = votingDinerId ? getVetoesRemaining(votingDinerId) : 0;
+  const canUndoSwipe = !!votingDinerId && canUndo(votingDinerId);
+
+  const remoteProfiles = selectedProfiles.filter((p) =>
+    party?.selectedDiners.some((d) => d.profileId === p.id && d.mode === 'remote')
+  );
+
+  // A match can also be declared by another diner's device or by the server
+  const matchedElsewhere = !!party?.matchedRestaurantId && phase !== 'matched';
   const swipeCount = party?.currentRestaurantIndex || 0;
   const canViewShortlist = swipeCount >= MIN_SWIPES_FOR_SHORTLIST;
   const maybeCount = getRestaurantsWithMaybeVotes().length;
-  const unanimousCount = getRestaurantsWithUnanimousMaybes().length;
+  const consensusCount = getRestaurantsWithConsensus().length;
 
   // Browse-only mode: single diner with "Just Browsing" profile (no match detection)
   const isBrowseOnly = isSingleDiner && selectedProfiles[0]?.name === 'Just Browsing';
@@ -108,14 +231,23 @@ export default function SwipePage() {
   const currentRound = Math.floor(roundStartIndex / (RESTAURANTS_PER_ROUND * inPersonDiners.length)) + 1;
   const remainingInDeck = restaurants.length - swipeCount;
 
-  // Load restaurants on mount
+  // Joined devices can't build the deck themselves - it comes from the host
+  const isWaitingForDeck = !!party && !party.deck && !canManage;
+
+  // The host removed the diner this device votes as
+  const wasRemoved =
+    !!localDinerId && !!party && !party.selectedDiners.some((d) => d.profileId === localDinerId);
+
+  // Build the deck on mount, or after the host changes filters
+  // (host only - everyone else reuses the saved one)
   useEffect(() => {
     if (!party) {
       router.push('/');
       return;
     }
 
-    if (restaurants.length === 0 && !isLoading) {
+    // A closed party never gets a deck, so don't keep searching for one
+    if (!party.deck && canManage && !isLoading && isPartyOpen()) {
       setIsLoading(true);
 
       // Use filters from party state (already hydrated from localStorage)
@@ -128,13 +260,13 @@ export default function SwipePage() {
           const results = await searchRestaurantsAsync({
             filters: partyFilters,
             profiles: selectedProfiles,
+            diners: party.selectedDiners,
             userLat: location?.lat,
             userLng: location?.lng,
           });
-          setRestaurants(results);
 
           // Show star burst on first card
-          if (results.length > 0) {
+          if (setDeck(results) && results.length > 0) {
             setShowStarBurst(true);
             setTimeout(() => setShowStarBurst(false), 1000);
           }
@@ -144,8 +276,9 @@ export default function SwipePage() {
           const results = searchRestaurants({
             filters: partyFilters,
             profiles: selectedProfiles,
+            diners: party.selectedDiners,
           });
-          setRestaurants(results);
+          setDeck(results);
         } finally {
           setIsLoading(false);
         }
@@ -153,7 +286,117 @@ export default function SwipePage() {
 
       loadRestaurants();
     }
-  }, [party, router, isLoading]);
+  }, [party, router, isLoading, canManage, isPartyOpen]);
+
+  // Near misses, and cards the group sent back to this device's diners
+  const nearMisses = getNearMisses();
+  const isAskedToReconsider = (nearMiss: NearMiss) =>
+    nearMiss.holdoutIds.every((id) =>
+      party?.selectedDiners
+        .find((d) => d.profileId === id)
+        ?.reconsider?.includes(nearMiss.restaurant.id)
+    );
+  const reconsiderDiners = getDeviceDiners().filter(
+    (d) => getReconsiderQueue(d.profileId).length > 0
+  );
+  const reconsiderDiner = reconsiderDiners[0] || null;
+  const reconsiderProfile = reconsiderDiner ? getProfile(reconsiderDiner.profileId) : null;
+  const reconsiderRestaurant = reconsiderDiner
+    ? getReconsiderQueue(reconsiderDiner.profileId)[0]
+    : null;
+  const reconsiderCount = reconsiderDiners.reduce(
+    (count, d) => count + getReconsiderQueue(d.profileId).length,
+    0
+  );
+
+  // Approval parties vote on a grid of the deck instead
+  const isApprovalMode = party?.votingMode === 'approval';
+  const hasDeck = !!party?.deck;
+  useEffect(() => {
+    if (isApprovalMode && hasDeck) {
+      router.push('/approve');
+    }
+  }, [isApprovalMode, hasDeck, router]);
+
+  // Coming back from the shortlist resumes swiping
+  useEffect(() => {
+    if (usePartyStore.getState().party?.status === 'shortlisting') {
+      setStatus('swiping');
+    }
+  }, [setStatus]);
+
+  // Follow a remote match to the celebration page
+  useEffect(() => {
+    if (!matchedElsewhere) return;
+    const timer = setTimeout(() => router.push('/match'), 2000);
+    return () => clearTimeout(timer);
+  }, [matchedElsewhere, router]);
+
+  // Time box: only a countdown that runs out while this page is open moves
+  // on by itself - coming back later shows the time's-up screen instead
+  const deadline = party ? getDeadline(party) : null;
+  const [now, setNow] = useState(() => Date.now());
+  const isTimeUp = deadline !== null && now >= deadline && !party?.matchedRestaurantId;
+  const shortlistCount = isMultiDinerInPerson ? consensusCount : maybeCount;
+  // A single diner has no near misses: fall back to the best cards they haven't seen yet
+  const fallbackPicks = isSingleDiner ? getFallbackPicks(restaurants, swipeCount) : [];
+
+  const handleTimeUp = useCallback(() => {
+    if (usePartyStore.getState().party?.matchedRestaurantId) return;
+
+    const shortlist = isMultiDinerInPerson
+      ? getRestaurantsWithConsensus()
+      : getRestaurantsWithMaybeVotes();
+    if (shortlist.length > 0) {
+      router.push('/shortlist');
+      return;
+    }
+
+    // Nothing shortlisted: a single diner spins for one of the cards still
+    // ahead, a group goes with whatever came closest
+    if (isSingleDiner) {
+      const { restaurants: deck, party: current } = usePartyStore.getState();
+      const picks = getFallbackPicks(deck, current?.currentRestaurantIndex || 0);
+      if (picks.length > 0) {
+        setWheelPicks(picks);
+        setPhase('spinWheel');
+      }
+      return;
+    }
+
+    const closest = getNearMisses()[0];
+    if (closest) {
+      setMatch(closest.restaurant.id);
+      setShowConfetti(true);
+      setPhase('matched');
+      setTimeout(() => {
+        router.push('/match');
+      }, 2000);
+    }
+  }, [
+    isMultiDinerInPerson,
+    isSingleDiner,
+    router,
+    getRestaurantsWithConsensus,
+    getRestaurantsWithMaybeVotes,
+    getNearMisses,
+    setMatch,
+  ]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+
+    let isRunning = Date.now() < deadline;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (isRunning && current >= deadline) {
+        isRunning = false;
+        handleTimeUp();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline, handleTimeUp]);
 
   // Note: Round completion is handled in handleVote when advanceToNextInPersonDiner returns true
   // This avoids race conditions with intermediate state updates
@@ -166,31 +409,21 @@ export default function SwipePage() {
   // Handle vote submission
   const handleVote = useCallback(
     (status: VoteStatus) => {
-      if (!currentRestaurant || !party) return;
-
-      // Determine which diner is voting
-      let votingDinerId: string;
-
-      if (inPersonDiners.length > 0 && currentInPersonDiner) {
-        // In-person mode: current in-person diner votes
-        votingDinerId = currentInPersonDiner.profileId;
-      } else if (party.selectedDiners.length === 1) {
-        // Single diner mode
-        votingDinerId = party.selectedDiners[0].profileId;
-      } else {
-        // All remote mode - simulate first unvoted diner
-        const unvotedDiner = party.selectedDiners.find(
-          (d) => !currentVotes[d.profileId] || currentVotes[d.profileId] === 'unknown'
-        );
-        votingDinerId = unvotedDiner?.profileId || party.selectedDiners[0].profileId;
-      }
+      // Remote devices wait for the diner picker
+      if (!currentRestaurant || !party || !votingDinerId) return;
 
-      // Record the vote
-      vote(votingDinerId, currentRestaurant.id, status);
+      // Record the vote. If it didn't count (out of vetoes, or voting closed
+      // meanwhile), put the card back instead of moving on
+      if (!vote(votingDinerId, currentRestaurant.id, status)) {
+        setCurrentCardKey((k) => k + 1);
+        setVoteNotice(status === 'veto' ? 'No vetoes left' : 'Voting is closed right now');
+        return;
+      }
 
       // For multi-diner in-person mode, don't check for instant match
-      // Matches are collected into shortlist and reviewed later
-      if (!isMultiDinerInPerson && !isBrowseOnly) {
+      // Matches are collected into shortlist and reviewed later.
+      // When the server detects matches, it arrives via party.matchedRestaurantId
+      if (!isMultiDinerInPerson && !isBrowseOnly && !isMatchDecidedByServer()) {
         const isMatch = checkForMatch(currentRestaurant.id);
         if (isMatch) {
           setMatch(currentRestaurant.id);
@@ -219,17 +452,83 @@ export default function SwipePage() {
           setIsInPersonReady(false); // Trigger handoff overlay for next person
 
           if (allDone) {
-            // All diners have finished this round
+            // All diners have finished this round, so the next one learns from it
+            adaptDeck();
             setPhase('roundEnd');
           }
         }
+      } else if (((party.currentRestaurantIndex || 0) + 1) % RESTAURANTS_PER_ROUND === 0) {
+        adaptDeck();
       }
     },
-    [currentRestaurant, party, inPersonDiners, currentInPersonDiner, currentVotes, isBrowseOnly, isMultiDinerInPerson]
+    [
+      currentRestaurant,
+      party,
+      votingDinerId,
+      isBrowseOnly,
+      isMultiDinerInPerson,
+      vote,
+      adaptDeck,
+      isMatchDecidedByServer,
+    ]
   );
 
+  // The notice from a vote that didn't count fades after a moment
+  useEffect(() => {
+    if (!voteNotice) return;
+    const timer = setTimeout(() => setVoteNotice(null), 2500);
+    return () => clearTimeout(timer);
+  }, [voteNotice]);
+
+  const handleToggleExpanded = (restaurant: Restaurant) => {
+    if (expandedId === restaurant.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(restaurant.id);
+    loadDetails(restaurant);
+  };
+
   const handleSwipeLeft = () => handleVote('no');
   const handleSwipeRight = () => handleVote('maybe');
+  const handleSwipeUp = () => handleVote('yes');
+  const handleVeto = () => handleVote('veto');
+
+  const handleUndo = useCallback(() => {
+    if (!votingDinerId || !undoLastSwipe(votingDinerId)) return;
+    setCurrentCardKey((k) => k + 1);
+  }, [votingDinerId, undoLastSwipe]);
+
+  // Shaking the phone undoes the last swipe too
+  useEffect(() => onShake(handleUndo), [handleUndo]);
+
+  const handleReconsiderVote = (status: VoteStatus) => {
+    if (!reconsiderDiner || !reconsiderRestaurant) return;
+
+    const recorded = answerReconsider(reconsiderDiner.profileId, reconsiderRestaurant.id, status);
+    setCurrentCardKey((k) => k + 1);
+    if (!recorded) {
+      setVoteNotice(status === 'veto' ? 'No vetoes left' : 'Voting is closed right now');
+      return;
+    }
+
+    // Same as a swipe: pass-the-phone groups collect a shortlist instead
+    if (!isMultiDinerInPerson && !isBrowseOnly && !isMatchDecidedByServer()) {
+      if (checkForMatch(reconsiderRestaurant.id)) {
+        setMatch(reconsiderRestaurant.id);
+        setShowConfetti(true);
+        setPhase('matched');
+        setTimeout(() => {
+          router.push('/match');
+        }, 2000);
+      }
+    }
+  };
+
+  const handleFinishReconsider = () => {
+    setReconsiderReadyFor(null);
+    setPhase(isMultiDinerInPerson ? 'roundEnd' : 'swiping');
+  };
 
   const handleInPersonReady = () => {
     setIsInPersonReady(true);
@@ -244,7 +543,7 @@ export default function SwipePage() {
 
   const handleSpinWheel = () => {
     const shortlist = isMultiDinerInPerson
-      ? getRestaurantsWithUnanimousMaybes()
+      ? getRestaurantsWithConsensus()
       : getRestaurantsWithMaybeVotes();
     if (shortlist.length > 0) {
       setPhase('spinWheel');
@@ -279,6 +578,50 @@ export default function SwipePage() {
     );
   }
 
+  if (wasRemoved) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+        <Logo size="md" className="mb-8" />
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 text-center">
+          You Were Removed
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+          The host removed you from this party.
+        </p>
+        <Button onClick={() => router.push('/')}>Start Your Own Session</Button>
+      </div>
+    );
+  }
+
+  // Decided, expired or cancelled before anyone started swiping
+  if (!party.deck && !isPartyOpen()) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+        <Logo size="md" className="mb-8" />
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 text-center">
+          This Party Has Ended
+        </h2>
+        <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+          It closed before anyone started swiping.
+        </p>
+        <Button onClick={() => router.push('/')}>Start Your Own Session</Button>
+      </div>
+    );
+  }
+
+  // Waiting for the host to start swiping
+  if (isWaitingForDeck) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+        <Logo size="md" className="mb-8" />
+        <div className="w-8 h-8 border-4 border-rose-500 border-t-transparent rounded-full animate-spin mb-4" />
+        <p className="text-gray-500 dark:text-gray-400 text-center">
+          Waiting for the host to start swiping...
+        </p>
+      </div>
+    );
+  }
+
   // No restaurants found
   if (restaurants.length === 0) {
     return (
@@ -295,6 +638,168 @@ export default function SwipePage() {
     );
   }
 
+  // Time's up, but this page wasn't open to move on (or nothing came close)
+  if (isTimeUp && phase !== 'matched' && phase !== 'spinWheel') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+        <Logo size="md" className="mb-8" />
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 text-center">
+          Time&apos;s Up!
+        </h2>
+        {shortlistCount > 0 ? (
+          <p className="text-rose-500 font-medium text-center mb-8">
+            {shortlistCount} {shortlistCount === 1 ? 'place' : 'places'} made the shortlist.
+          </p>
+        ) : nearMisses.length > 0 && !isSingleDiner ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+            Nothing made the shortlist, but {nearMisses[0].restaurant.name} came closest.
+          </p>
+        ) : fallbackPicks.length > 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+            Nothing made the shortlist, but there are places you haven&apos;t seen yet.
+          </p>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+            Nothing made the shortlist or came close.
+          </p>
+        )}
+        <div className="flex flex-col gap-3 w-full max-w-xs">
+          {shortlistCount > 0 ? (
+            <>
+              <Button onClick={() => router.push('/shortlist')} fullWidth>
+                View Shortlist ({shortlistCount})
+              </Button>
+              <Button variant="secondary" onClick={handleSpinWheel} fullWidth>
+                Let Fate Decide
+              </Button>
+            </>
+          ) : nearMisses.length > 0 && !isSingleDiner ? (
+            <Button onClick={handleTimeUp} fullWidth>
+              Go with {nearMisses[0].restaurant.name}
+            </Button>
+          ) : (
+            fallbackPicks.length > 0 && (
+              <Button onClick={handleTimeUp} fullWidth>
+                Let Fate Decide
+              </Button>
+            )
+          )}
+          {canManage ? (
+            <Button
+              variant="secondary"
+              onClick={() => setTimeBox({ kind: 'clock', at: Date.now() + 5 * 60 * 1000 })}
+              fullWidth
+            >
+              5 More Minutes
+            </Button>
+          ) : (
+            <p className="text-center text-sm text-gray-400 dark:text-gray-500">
+              Ask the host for more time.
+            </p>
+          )}
+          <Button variant="secondary" onClick={() => router.push('/')} fullWidth>
+            Start Over
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Cards sent back to this device's holdouts, one diner at a time
+  if (phase === 'reconsider') {
+    if (!reconsiderDiner || !reconsiderRestaurant || !reconsiderProfile) {
+      return (
+        <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col items-center justify-center px-8">
+          <Logo size="md" className="mb-8" />
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 text-center">
+            All Caught Up
+          </h2>
+          <p className="text-gray-500 dark:text-gray-400 text-center mb-8">
+            Thanks for taking another look.
+          </p>
+          <Button onClick={handleFinishReconsider}>Continue</Button>
+        </div>
+      );
+    }
+
+    const needsReconsiderReady =
+      getDeviceDiners().length > 1 && reconsiderReadyFor !== reconsiderDiner.profileId;
+    const queued = getReconsiderQueue(reconsiderDiner.profileId).length;
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
+        <Confetti isActive={showConfetti || matchedElsewhere} />
+
+        <header className="p-4 flex items-center justify-between">
+          <div className="w-9" />
+          <Logo variant="icon" size="sm" />
+          <div className="w-9" />
+        </header>
+
+        <div className="flex-1 px-4 pb-4 flex flex-col">
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 mb-3">
+            <span className="font-medium text-rose-500">
+              {reconsiderProfile.name.split(' ')[0]}
+            </span>
+            , the group almost agreed on this one
+          </p>
+
+          <div className="relative flex-1 max-w-md mx-auto w-full">
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={`reconsider-${currentCardKey}`}
+                initial={{ scale: 0.95, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                exit={{ scale: 0.95, opacity: 0 }}
+                className="absolute inset-0"
+              >
+                <SwipeCard
+                  restaurant={withDetails(reconsiderRestaurant)}
+                  onSwipeLeft={() => handleReconsiderVote('no')}
+                  onSwipeRight={() => handleReconsiderVote('maybe')}
+                  onSwipeUp={() => handleReconsiderVote('yes')}
+                  isExpanded={expandedId === reconsiderRestaurant.id}
+                  isLoadingDetails={isLoadingDetails(reconsiderRestaurant.id)}
+                  onToggleExpanded={() => handleToggleExpanded(reconsiderRestaurant)}
+                />
+
+                <AnimatePresence>
+                  {needsReconsiderReady && (
+                    <OnDeckOverlay
+                      profile={reconsiderProfile}
+                      onReady={() => setReconsiderReadyFor(reconsiderDiner.profileId)}
+                      instructions={`Take another look at ${queued} ${
+                        queued === 1 ? 'restaurant' : 'restaurants'
+                      }`}
+                    />
+                  )}
+                </AnimatePresence>
+              </motion.div>
+            </AnimatePresence>
+          </div>
+
+          <div className="mt-4">
+            {voteNotice && (
+              <p className="mb-2 text-center text-sm font-medium text-amber-600 dark:text-amber-400">
+                {voteNotice}
+              </p>
+            )}
+            <VoteButtons
+              onNo={() => handleReconsiderVote('no')}
+              onMaybe={() => handleReconsiderVote('maybe')}
+              onYes={() => handleReconsiderVote('yes')}
+              onVeto={() => handleReconsiderVote('veto')}
+              onUndo={() => {}}
+              vetoesRemaining={getVetoesRemaining(reconsiderDiner.profileId)}
+              canUndo={false}
+              disabled={needsReconsiderReady}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Round end screen for multi-diner mode
   if (phase === 'roundEnd') {
     return (
@@ -306,30 +811,54 @@ export default function SwipePage() {
         <p className="text-gray-500 dark:text-gray-400 text-center mb-2">
           Everyone has swiped through their restaurants.
         </p>
-        {unanimousCount > 0 ? (
+        <p className="text-xs text-gray-400 dark:text-gray-500 text-center mb-2">
+          {describeConsensus(party.consensus)}
+        </p>
+        {consensusCount > 0 ? (
           <p className="text-rose-500 font-medium text-center mb-8">
-            {unanimousCount} {unanimousCount === 1 ? 'place' : 'places'} made everyone's shortlist!
+            {consensusCount} {consensusCount === 1 ? 'place' : 'places'} made the shortlist!
           </p>
         ) : (
           <p className="text-gray-400 text-center mb-8">
-            No unanimous matches yet. Keep swiping!
+            {nearMisses.length > 0
+              ? 'No matches yet, but some came close.'
+              : 'No matches yet. Keep swiping!'}
           </p>
         )}
+        {remainingInDeck > 0 && (
+          <DeckAdjustmentNote adjustments={party.deckAdjustments || []} className="-mt-6 mb-8" />
+        )}
+        {nearMisses.length > 0 && (
+          <div className="mb-8 w-full flex justify-center">
+            <NearMissList
+              nearMisses={nearMisses}
+              profiles={selectedProfiles}
+              votes={party.votes}
+              isAsked={isAskedToReconsider}
+              onAsk={askToReconsider}
+            />
+          </div>
+        )}
         <div className="flex flex-col gap-3 w-full max-w-xs">
-          {unanimousCount > 0 && (
+          {reconsiderCount > 0 && (
+            <Button onClick={() => setPhase('reconsider')} fullWidth>
+              Take Another Look ({reconsiderCount})
+            </Button>
+          )}
+          {consensusCount > 0 && (
             <Button onClick={() => router.push('/shortlist')} fullWidth>
-              View Shortlist ({unanimousCount})
+              View Shortlist ({consensusCount})
             </Button>
           )}
           {remainingInDeck > 0 ? (
             <Button
-              variant={unanimousCount > 0 ? 'secondary' : 'primary'}
+              variant={consensusCount > 0 ? 'secondary' : 'primary'}
               onClick={handleContinueRound}
               fullWidth
             >
               Continue Swiping ({remainingInDeck} left)
             </Button>
-          ) : unanimousCount > 0 ? (
+          ) : consensusCount > 0 ? (
             <Button variant="secondary" onClick={handleSpinWheel} fullWidth>
               Let Fate Decide
             </Button>
@@ -338,7 +867,7 @@ export default function SwipePage() {
               No more restaurants and no matches. Try adjusting your filters.
             </p>
           )}
-          {unanimousCount > 0 && remainingInDeck > 0 && (
+          {consensusCount > 0 && remainingInDeck > 0 && (
             <Button variant="secondary" onClick={handleSpinWheel} fullWidth>
               Let Fate Decide
             </Button>
@@ -364,23 +893,39 @@ export default function SwipePage() {
           <p className="text-gray-500 dark:text-gray-400 text-center mb-2">
             You've seen all {restaurants.length} restaurants.
           </p>
-          {unanimousCount > 0 ? (
+          {consensusCount > 0 ? (
             <p className="text-rose-500 font-medium text-center mb-8">
-              {unanimousCount} {unanimousCount === 1 ? 'place' : 'places'} made everyone's shortlist!
+              {consensusCount} {consensusCount === 1 ? 'place' : 'places'} made the shortlist!
             </p>
           ) : (
             <p className="text-gray-400 text-center mb-8">
-              No unanimous matches. Use the wheel to pick from individual maybes!
+              No matches. Use the wheel to pick from individual maybes!
             </p>
           )}
+          {nearMisses.length > 0 && (
+            <div className="mb-8 w-full flex justify-center">
+              <NearMissList
+                nearMisses={nearMisses}
+                profiles={selectedProfiles}
+                votes={party.votes}
+                isAsked={isAskedToReconsider}
+                onAsk={askToReconsider}
+              />
+            </div>
+          )}
           <div className="flex flex-col gap-3 w-full max-w-xs">
-            {unanimousCount > 0 && (
+            {reconsiderCount > 0 && (
+              <Button onClick={() => setPhase('reconsider')} fullWidth>
+                Take Another Look ({reconsiderCount})
+              </Button>
+            )}
+            {consensusCount > 0 && (
               <Button onClick={() => router.push('/shortlist')} fullWidth>
-                View Shortlist ({unanimousCount})
+                View Shortlist ({consensusCount})
               </Button>
             )}
             <Button
-              variant={unanimousCount > 0 ? 'secondary' : 'primary'}
+              variant={consensusCount > 0 ? 'secondary' : 'primary'}
               onClick={handleSpinWheel}
               fullWidth
             >
@@ -444,9 +989,9 @@ export default function SwipePage() {
 
   // Spin wheel phase
   if (phase === 'spinWheel') {
-    const wheelRestaurants = isMultiDinerInPerson
-      ? getRestaurantsWithUnanimousMaybes()
-      : getRestaurantsWithMaybeVotes();
+    const wheelRestaurants =
+      wheelPicks ??
+      (isMultiDinerInPerson ? getRestaurantsWithConsensus() : getRestaurantsWithMaybeVotes());
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900">
@@ -467,7 +1012,7 @@ export default function SwipePage() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
-      <Confetti isActive={showConfetti} />
+      <Confetti isActive={showConfetti || matchedElsewhere} />
 
       {/* Header */}
       <header className="p-4 flex items-center justify-between">
@@ -490,9 +1035,73 @@ export default function SwipePage() {
           </svg>
         </button>
         <Logo variant="icon" size="sm" />
-        <div className="w-9" /> {/* Spacer */}
+        <button
+          onClick={() => setShowPartySettings(true)}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+        >
+          <svg
+            className="w-5 h-5 text-gray-600 dark:text-gray-400"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"
+            />
+          </svg>
+        </button>
       </header>
 
+      <PendingSyncBadge count={pendingVotes.length} />
+      {deadline !== null && !isTimeUp && <CountdownBadge msLeft={deadline - now} />}
+
+      {/* Party settings (read-only for everyone but the host) */}
+      <Modal
+        isOpen={showPartySettings}
+        onClose={() => setShowPartySettings(false)}
+        title="Party Settings"
+      >
+        <TimeBoxPicker timeBox={party.timeBox} readOnly={!canManage} onChange={setTimeBox} />
+        <hr className="my-5 border-gray-100 dark:border-gray-700" />
+        <HostControls
+          diners={selectedProfiles}
+          selections={party.selectedDiners}
+          hostProfileId={party.hostProfileId}
+          joinsLocked={party.joinsLocked}
+          readOnly={!canManage}
+          onToggleLock={setJoinsLocked}
+          onRemoveDiner={removeDiner}
+          onWeightChange={setDinerWeight}
+          onToggleHonoree={setHonoree}
+          onRestartVoting={() => {
+            restartVoting();
+            setShowPartySettings(false);
+          }}
+          onChangeFilters={() => {
+            setShowPartySettings(false);
+            setShowFiltersModal(true);
+          }}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showFiltersModal}
+        onClose={() => setShowFiltersModal(false)}
+        title="Change Filters"
+      >
+        <PartyFiltersForm
+          initialFilters={party.filters}
+          onSubmit={(filters) => {
+            updateFilters(filters);
+            setShowFiltersModal(false);
+          }}
+          onCancel={() => setShowFiltersModal(false)}
+        />
+      </Modal>
+
       {/* Card area */}
       <div className="flex-1 px-4 pb-4 flex flex-col">
         {/* Card container */}
@@ -507,10 +1116,14 @@ export default function SwipePage() {
                 className="absolute inset-0"
               >
                 <SwipeCard
-                  restaurant={currentRestaurant}
+                  restaurant={withDetails(currentRestaurant)}
                   onSwipeLeft={handleSwipeLeft}
                   onSwipeRight={handleSwipeRight}
+                  onSwipeUp={handleSwipeUp}
                   isFirst={currentCardKey === 0}
+                  isExpanded={expandedId === currentRestaurant.id}
+                  isLoadingDetails={isLoadingDetails(currentRestaurant.id)}
+                  onToggleExpanded={() => handleToggleExpanded(currentRestaurant)}
                 />
                 <StarBurst isActive={showStarBurst && currentCardKey === 0} />
 
@@ -523,6 +1136,16 @@ export default function SwipePage() {
                     />
                   )}
                 </AnimatePresence>
+
+                {/* Remote identity picker */}
+                <AnimatePresence>
+                  {needsDinerPick && (
+                    <DinerPickerOverlay
+                      profiles={remoteProfiles}
+                      onSelect={setLocalDiner}
+                    />
+                  )}
+                </AnimatePresence>
               </motion.div>
             )}
           </AnimatePresence>
@@ -538,10 +1161,20 @@ export default function SwipePage() {
 
         {/* Vote buttons */}
         <div className="mt-4">
+          {voteNotice && (
+            <p className="mb-2 text-center text-sm font-medium text-amber-600 dark:text-amber-400">
+              {voteNotice}
+            </p>
+          )}
           <VoteButtons
             onNo={handleSwipeLeft}
             onMaybe={handleSwipeRight}
-            disabled={needsInPersonHandoff}
+            onYes={handleSwipeUp}
+            onVeto={handleVeto}
+            onUndo={handleUndo}
+            vetoesRemaining={vetoesRemaining}
+            canUndo={canUndoSwipe}
+            disabled={needsInPersonHandoff || needsDinerPick}
           />
         </div>
 
@@ -550,7 +1183,9 @@ export default function SwipePage() {
           <VoterStatus
             profiles={selectedProfiles}
             votes={currentVotes}
-            currentDinerId={currentInPersonDiner?.profileId}
+            currentDinerId={currentInPersonDiner?.profileId ?? localDiner?.profileId}
+            presence={presence}
+            showHoldouts={canManage && !isSingleDiner}
           />
         </div>
 
@@ -559,9 +1194,9 @@ export default function SwipePage() {
           {isMultiDinerInPerson ? (
             <>
               Person {currentDinerIndex + 1} of {inPersonDiners.length}
-              {unanimousCount > 0 && (
+              {consensusCount > 0 && (
                 <span className="text-rose-500 ml-2">
-                  ({unanimousCount} on shortlist)
+                  ({consensusCount} on shortlist)
                 </span>
               )}
             </>
@@ -571,16 +1206,35 @@ export default function SwipePage() {
             </>
           )}
         </div>
+        <DeckAdjustmentNote adjustments={party.deckAdjustments || []} className="mt-1" />
 
         {/* Action buttons */}
         <div className="mt-4 text-center space-y-2">
+          {/* Cards the group sent back to this diner */}
+          {!isMultiDinerInPerson && reconsiderCount > 0 && (
+            <button
+              onClick={() => setPhase('reconsider')}
+              className="text-rose-500 text-sm font-medium hover:underline block mx-auto"
+            >
+              Asked to reconsider {reconsiderCount}{' '}
+              {reconsiderCount === 1 ? 'restaurant' : 'restaurants'}
+            </button>
+          )}
           {/* Shortlist button after enough swipes */}
-          {canViewShortlist && (isMultiDinerInPerson ? unanimousCount > 0 : maybeCount > 0) && (
+          {canViewShortlist && (isMultiDinerInPerson ? consensusCount > 0 : maybeCount > 0) && (
             <button
               onClick={() => router.push('/shortlist')}
               className="text-rose-500 text-sm font-medium hover:underline block mx-auto"
             >
-              View Shortlist ({isMultiDinerInPerson ? unanimousCount : maybeCount})
+              View Shortlist ({isMultiDinerInPerson ? consensusCount : maybeCount})
+            </button>
+          )}
+          {swipeCount > 0 && (
+            <button
+              onClick={() => router.push('/votes')}
+              className="text-gray-400 dark:text-gray-500 text-sm hover:underline block mx-auto"
+            >
+              Change My Votes
             </button>
           )}
           <button
@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * My Votes Page
+ *
+ * Route: /votes
+ * Purpose: Change votes on restaurants this device already swiped past.
+ * - Flip a 'no' to 'maybe' (or back) after a change of heart
+ * - Changed votes are re-checked against the party's consensus policy,
+ *   so a late change can still produce a match
+ */
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Logo } from '@/components/common/Logo';
+import { Confetti } from '@/components/common/Confetti';
+import { MyVotesList } from '@/components/swipe/MyVotesList';
+import { usePartyStore, useProfileStore } from '@/stores';
+import { Profile, VoteStatus } from '@/types';
+import { describeConsensus } from '@/utils/helpers';
+
+export default function VotesPage() {
+  const router = useRouter();
+  const {
+    party,
+    getDeviceDiners,
+    getInPersonDiners,
+    getSeenRestaurants,
+    changeVote,
+    checkForMatch,
+    isMatchDecidedByServer,
+    setMatch,
+  } = usePartyStore();
+  const { getProfile } = useProfileStore();
+
+  const deviceProfiles = getDeviceDiners()
+    .map((d) => getProfile(d.profileId))
+    .filter(Boolean) as Profile[];
+
+  // Same rules as swiping: pass-the-phone groups and browsers don't match instantly
+  const isSingleDiner = party?.selectedDiners.length === 1;
+  const isMultiDinerInPerson = !isSingleDiner && getInPersonDiners().length > 1;
+  const isBrowseOnly = isSingleDiner && deviceProfiles[0]?.name === 'Just Browsing';
+
+  // Redirect if no party
+  useEffect(() => {
+    if (!party) {
+      router.push('/');
+    }
+  }, [party, router]);
+
+  // Follow a match (from this change or any other device) to the celebration page
+  const matchedRestaurantId = party?.matchedRestaurantId;
+  useEffect(() => {
+    if (!matchedRestaurantId) return;
+    const timer = setTimeout(() => router.push('/match'), 2000);
+    return () => clearTimeout(timer);
+  }, [matchedRestaurantId, router]);
+
+  const handleChangeVote = (dinerId: string, restaurantId: string, status: VoteStatus) => {
+    if (!changeVote(dinerId, restaurantId, status)) return;
+
+    // When the server detects matches, it arrives via party.matchedRestaurantId
+    if (!isMultiDinerInPerson && !isBrowseOnly && !isMatchDecidedByServer()) {
+      if (checkForMatch(restaurantId)) {
+        setMatch(restaurantId);
+      }
+    }
+  };
+
+  if (!party) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-rose-50 to-pink-50 dark:from-gray-950 dark:to-gray-900 flex flex-col">
+      <Confetti isActive={!!matchedRestaurantId} />
+
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-100 dark:border-gray-800">
+        <div className="max-w-lg mx-auto px-4 py-4 flex items-center justify-between">
+          <button
+            onClick={() => router.push('/swipe')}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+          >
+            <svg
+              className="w-5 h-5 text-gray-600 dark:text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+          </button>
+          <Logo variant="icon" size="sm" />
+          <div className="w-9" />
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="flex-1 max-w-lg mx-auto px-4 py-6 w-full">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="text-center mb-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              My Votes
+            </h1>
+            <p className="text-gray-500 dark:text-gray-400">
+              Changed your mind? Update any restaurant you&apos;ve swiped.
+            </p>
+            {!isSingleDiner && (
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                {describeConsensus(party.consensus)}
+              </p>
+            )}
+          </div>
+
+          <MyVotesList
+            diners={deviceProfiles}
+            restaurants={getSeenRestaurants()}
+            votes={party.votes}
+            onChangeVote={handleChangeVote}
+          />
+        </motion.div>
+      </div>
+    </div>
+  );
+}
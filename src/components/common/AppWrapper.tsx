@@ -5,10 +5,14 @@
  *
  * Manages global app state like splash screen visibility.
  * Wraps the entire app content and shows splash on first load.
+ * Also keeps the current party subscribed to realtime updates, shares
+ * this device's presence with the rest of the party, and replays votes
+ * queued while offline.
  */
 
 import { useState, useEffect } from 'react';
 import { SplashScreen } from './SplashScreen';
+import { usePartyStore, usePresenceStore } from '@/stores';
 
 interface AppWrapperProps {
   children: React.ReactNode;
@@ -19,6 +23,19 @@ const SPLASH_SHOWN_KEY = 'swipe-to-dine-splash-shown';
 export function AppWrapper({ children }: AppWrapperProps) {
   const [showSplash, setShowSplash] = useState(false);
   const [mounted, setMounted] = useState(false);
+  const inviteId = usePartyStore((state) => state.party?.inviteId);
+  const subscribeToPartyUpdates = usePartyStore((state) => state.subscribeToPartyUpdates);
+  const cardIndex = usePartyStore((state) => state.party?.currentRestaurantIndex ?? 0);
+  // The diners this device votes as: its remote diner, or everyone passing the phone
+  const deviceDinerIds = usePartyStore((state) =>
+    state
+      .getDeviceDiners()
+      .map((d) => d.profileId)
+      .join(',')
+  );
+  const flushPendingVotes = usePartyStore((state) => state.flushPendingVotes);
+  const joinPresence = usePresenceStore((state) => state.joinPresence);
+  const updatePresence = usePresenceStore((state) => state.updatePresence);
 
   useEffect(() => {
     setMounted(true);
@@ -30,6 +47,37 @@ export function AppWrapper({ children }: AppWrapperProps) {
     }
   }, []);
 
+  // Follow the current party's live state from the party repository
+  useEffect(() => {
+    if (!inviteId) return;
+    return subscribeToPartyUpdates();
+  }, [inviteId, subscribeToPartyUpdates]);
+
+  // Replay votes cast offline on load and whenever the connection comes back
+  useEffect(() => {
+    if (!inviteId) return;
+
+    flushPendingVotes();
+    const handleOnline = () => flushPendingVotes();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [inviteId, flushPendingVotes]);
+
+  useEffect(() => {
+    if (!inviteId) return;
+    return joinPresence(inviteId);
+  }, [inviteId, joinPresence]);
+
+  // Moving to a new card counts as activity
+  useEffect(() => {
+    if (!inviteId) return;
+    updatePresence({
+      dinerIds: deviceDinerIds ? deviceDinerIds.split(',') : [],
+      cardIndex,
+      lastActiveAt: Date.now(),
+    });
+  }, [inviteId, deviceDinerIds, cardIndex, updatePresence]);
+
   const handleSplashComplete = () => {
     sessionStorage.setItem(SPLASH_SHOWN_KEY, 'true');
     setShowSplash(false);
@@ -0,0 +1,62 @@
+'use client';
+
+/**
+ * Badge for votes that haven't reached the other diners yet
+ */
+
+import { useSyncExternalStore } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface PendingSyncBadgeProps {
+  count: number;
+}
+
+function subscribeToOnline(onChange: () => void) {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+}
+
+export function PendingSyncBadge({ count }: PendingSyncBadgeProps) {
+  const isOnline = useSyncExternalStore(
+    subscribeToOnline,
+    () => navigator.onLine,
+    () => true
+  );
+
+  const votes = `${count} ${count === 1 ? 'vote' : 'votes'}`;
+
+  return (
+    <AnimatePresence>
+      {(count > 0 || !isOnline) && (
+        <motion.div
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -8 }}
+          className={`
+            mx-auto flex w-fit items-center gap-2 px-3 py-1 rounded-full text-xs font-medium
+            ${
+              isOnline
+                ? 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300'
+                : 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-200'
+            }
+          `}
+        >
+          {isOnline ? (
+            <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <span className="w-2 h-2 rounded-full bg-amber-500" />
+          )}
+          {isOnline
+            ? `Syncing ${votes}...`
+            : count > 0
+              ? `Offline · ${votes} waiting to sync`
+              : 'Offline · votes will sync when you reconnect'}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
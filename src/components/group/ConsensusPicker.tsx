@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * Picks how many diners need to agree on a restaurant (host only)
+ */
+
+import { ConsensusPolicy, ConsensusRule, CONSENSUS_LABELS } from '@/types';
+import { SegmentedControl, Slider } from '@/components/ui';
+import { describeConsensus } from '@/utils/helpers';
+
+const RULES: ConsensusRule[] = ['unanimous', 'supermajority', 'majority', 'noVetoes'];
+
+// Starting values when switching to a rule with a setting
+const DEFAULT_THRESHOLD = 0.75;
+const DEFAULT_MIN_YES = 1;
+
+interface ConsensusPickerProps {
+  consensus: ConsensusPolicy;
+  dinerCount: number;
+  readOnly: boolean;
+  onChange: (consensus: ConsensusPolicy) => void;
+}
+
+function policyForRule(rule: ConsensusRule): ConsensusPolicy {
+  switch (rule) {
+    case 'supermajority':
+      return { rule, threshold: DEFAULT_THRESHOLD };
+    case 'noVetoes':
+      return { rule, minYes: DEFAULT_MIN_YES };
+    default:
+      return { rule };
+  }
+}
+
+export function ConsensusPicker({
+  consensus,
+  dinerCount,
+  readOnly,
+  onChange,
+}: ConsensusPickerProps) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        What Counts as a Match
+      </h3>
+
+      {!readOnly && (
+        <SegmentedControl
+          options={RULES.map((rule) => ({ value: rule, label: CONSENSUS_LABELS[rule] }))}
+          value={consensus.rule}
+          onChange={(rule) => onChange(policyForRule(rule as ConsensusRule))}
+          size="sm"
+          className="w-full mb-3"
+        />
+      )}
+
+      {!readOnly && consensus.rule === 'supermajority' && (
+        <Slider
+          label="Share of diners"
+          value={Math.round(consensus.threshold * 100)}
+          onChange={(percent) => onChange({ ...consensus, threshold: percent / 100 })}
+          min={55}
+          max={100}
+          step={5}
+          valueLabel={(v) => `${v}%`}
+          className="mb-3"
+        />
+      )}
+
+      {!readOnly && consensus.rule === 'noVetoes' && (
+        <Slider
+          label="Strong yeses needed"
+          value={consensus.minYes}
+          onChange={(minYes) => onChange({ ...consensus, minYes })}
+          min={1}
+          max={Math.max(2, dinerCount)}
+          step={1}
+          valueLabel={(v) => `${v}`}
+          className="mb-3"
+        />
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {describeConsensus(consensus)}. A veto always rules a place out.
+      </p>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 'use client';
 
 /**
- * List of profiles with selection, favorites, and attendance mode controls
+ * List of profiles with selection, favorites, and attendance mode controls.
+ * Selected diners also show whether they're online and how far they've swiped.
  */
 
-import { Profile, AttendanceMode } from '@/types';
+import { Profile, AttendanceMode, DinerPresence } from '@/types';
 import { Avatar, SegmentedControl } from '@/components/ui';
+import { formatTimeAgo } from '@/utils/helpers';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface DinerListProps {
@@ -16,6 +18,8 @@ interface DinerListProps {
   onModeChange: (profileId: string, mode: AttendanceMode) => void;
   onEdit: (profile: Profile) => void;
   onToggleFavorite: (profileId: string) => void;
+  readOnly?: boolean; // Selection and modes can't be changed (non-host devices)
+  presence?: Record<string, DinerPresence>;
 }
 
 const modeOptions = [
@@ -31,6 +35,8 @@ export function DinerList({
   onModeChange,
   onEdit,
   onToggleFavorite,
+  readOnly = false,
+  presence = {},
 }: DinerListProps) {
   // Filter out the "Just Browsing" profile - it's handled separately
   // Sort: favorites first, then by name
@@ -55,6 +61,7 @@ export function DinerList({
           {visibleProfiles.map((profile) => {
             const isSelected = selectedIds.includes(profile.id);
             const mode = modesById[profile.id] || 'remote';
+            const dinerPresence = presence[profile.id];
 
             return (
               <motion.div
@@ -76,7 +83,8 @@ export function DinerList({
                   {/* Checkbox + Avatar */}
                   <button
                     onClick={() => onToggleSelect(profile.id)}
-                    className="flex items-center gap-3"
+                    disabled={readOnly}
+                    className="flex items-center gap-3 disabled:cursor-default"
                   >
                     <div
                       className={`
@@ -155,6 +163,22 @@ export function DinerList({
                       {profile.phone}
                     </p>
 
+                    {/* Presence (only when selected) */}
+                    {isSelected && (
+                      <p className="mt-1 flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                        <span
+                          className={`w-2 h-2 rounded-full ${
+                            dinerPresence?.online ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                          }`}
+                        />
+                        {!dinerPresence
+                          ? 'Hasn\'t opened the invite yet'
+                          : dinerPresence.online
+                            ? `Online · on card ${dinerPresence.cardIndex + 1}`
+                            : `Last active ${formatTimeAgo(dinerPresence.lastActiveAt)}`}
+                      </p>
+                    )}
+
                     {/* Mode selector (only when selected) */}
                     {isSelected && (
                       <motion.div
@@ -163,12 +187,14 @@ export function DinerList({
                         exit={{ opacity: 0, height: 0 }}
                         className="mt-3"
                       >
-                        <SegmentedControl
-                          options={modeOptions}
-                          value={mode}
-                          onChange={(v) => onModeChange(profile.id, v as AttendanceMode)}
-                          size="sm"
-                        />
+                        {!readOnly && (
+                          <SegmentedControl
+                            options={modeOptions}
+                            value={mode}
+                            onChange={(v) => onModeChange(profile.id, v as AttendanceMode)}
+                            size="sm"
+                          />
+                        )}
                         <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
                           {mode === 'remote'
                             ? "They'll swipe from their phone"
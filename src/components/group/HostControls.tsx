@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * Host-only party controls: lock joins, weigh or remove diners, pick a
+ * guest of honor, restart voting and change filters. Everyone else sees
+ * the same settings read-only.
+ */
+
+import { Profile, DinerSelection, DINER_WEIGHTS } from '@/types';
+import { Avatar, Button, Toggle } from '@/components/ui';
+
+interface HostControlsProps {
+  diners: Profile[];
+  selections: DinerSelection[];
+  hostProfileId: string | null;
+  joinsLocked: boolean;
+  readOnly: boolean;
+  onToggleLock: (locked: boolean) => void;
+  onRemoveDiner: (profileId: string) => void;
+  onWeightChange: (profileId: string, weight: number) => void;
+  onToggleHonoree: (profileId: string, honoree: boolean) => void;
+  onRestartVoting: () => void;
+  onChangeFilters: () => void;
+}
+
+export function HostControls({
+  diners,
+  selections,
+  hostProfileId,
+  joinsLocked,
+  readOnly,
+  onToggleLock,
+  onRemoveDiner,
+  onWeightChange,
+  onToggleHonoree,
+  onRestartVoting,
+  onChangeFilters,
+}: HostControlsProps) {
+  const handleRemove = (profile: Profile) => {
+    if (confirm(`Remove ${profile.name}? Their votes will be cleared.`)) {
+      onRemoveDiner(profile.id);
+    }
+  };
+
+  // Tapping the weight steps through DINER_WEIGHTS
+  const handleCycleWeight = (profileId: string, weight: number) => {
+    const next = DINER_WEIGHTS[(DINER_WEIGHTS.indexOf(weight) + 1) % DINER_WEIGHTS.length];
+    onWeightChange(profileId, next ?? DINER_WEIGHTS[0]);
+  };
+
+  const handleRestart = () => {
+    if (confirm('Restart voting? Everyone starts again from the first restaurant.')) {
+      onRestartVoting();
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {readOnly && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Only the host can change these settings.
+        </p>
+      )}
+
+      {/* Lock joins */}
+      <div>
+        <Toggle
+          value={joinsLocked}
+          onChange={onToggleLock}
+          label="Lock party"
+          disabled={readOnly}
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {joinsLocked
+            ? 'Nobody new can join with the invite link'
+            : 'Anyone with the invite link can join'}
+        </p>
+      </div>
+
+      {/* Diners */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Diners
+        </h3>
+        <div className="space-y-2">
+          {diners.map((profile) => {
+            const selection = selections.find((d) => d.profileId === profile.id);
+            const weight = selection?.weight ?? 1;
+            const isHonoree = selection?.honoree === true;
+
+            return (
+              <div
+                key={profile.id}
+                className="flex items-center gap-3 p-2 rounded-xl bg-gray-50 dark:bg-gray-800"
+              >
+                <Avatar src={profile.avatar} alt={profile.name} size="sm" />
+                <span className="flex-1 font-medium text-gray-900 dark:text-white truncate">
+                  {profile.name}
+                </span>
+                {readOnly ? (
+                  <>
+                    {isHonoree && <span title="Guest of honor">🎂</span>}
+                    {weight !== 1 && (
+                      <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+                        ×{weight}
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onToggleHonoree(profile.id, !isHonoree)}
+                      title={isHonoree ? 'Guest of honor' : 'Make guest of honor'}
+                      className={`text-lg transition-opacity ${isHonoree ? '' : 'opacity-30 hover:opacity-60'}`}
+                    >
+                      🎂
+                    </button>
+                    <button
+                      onClick={() => handleCycleWeight(profile.id, weight)}
+                      title="How much their vote counts"
+                      className="w-9 py-0.5 rounded-full text-xs font-semibold bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      ×{weight}
+                    </button>
+                  </>
+                )}
+                {profile.id === hostProfileId ? (
+                  <span className="text-xs font-semibold text-rose-500">Host</span>
+                ) : (
+                  !readOnly && (
+                    <button
+                      onClick={() => handleRemove(profile)}
+                      className="text-sm text-gray-400 hover:text-red-500 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          🎂 A guest of honor&apos;s &ldquo;no&rdquo; rules a place out. ×2 and ×3 diners count extra.
+        </p>
+      </div>
+
+      {!readOnly && (
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onChangeFilters} fullWidth>
+            Change Filters
+          </Button>
+          <Button variant="danger" onClick={handleRestart} fullWidth>
+            Restart Voting
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+/**
+ * Form for changing a party's dining filters mid-session
+ */
+
+import { useState } from 'react';
+import { DiningFilters, PriceLevel, CuisineType, ALL_CUISINES, CUISINE_LABELS } from '@/types';
+import { Button, Slider, Chip } from '@/components/ui';
+
+const PRICE_LEVELS: PriceLevel[] = ['$', '$$', '$$$', '$$$$'];
+
+interface PartyFiltersFormProps {
+  initialFilters: DiningFilters;
+  onSubmit: (filters: DiningFilters) => void;
+  onCancel: () => void;
+}
+
+export function PartyFiltersForm({ initialFilters, onSubmit, onCancel }: PartyFiltersFormProps) {
+  const [filters, setFilters] = useState<DiningFilters>(initialFilters);
+
+  const togglePriceLevel = (level: PriceLevel) => {
+    setFilters((prev) => ({
+      ...prev,
+      priceRange: prev.priceRange.includes(level)
+        ? prev.priceRange.filter((p) => p !== level)
+        : [...prev.priceRange, level],
+    }));
+  };
+
+  const toggleCuisine = (cuisine: CuisineType) => {
+    setFilters((prev) => ({
+      ...prev,
+      cuisineTypes: prev.cuisineTypes.includes(cuisine)
+        ? prev.cuisineTypes.filter((c) => c !== cuisine)
+        : [...prev.cuisineTypes, cuisine],
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Slider
+        label="Maximum Distance"
+        value={filters.maxDistance}
+        onChange={(maxDistance) => setFilters((prev) => ({ ...prev, maxDistance }))}
+        min={1}
+        max={25}
+        step={1}
+        valueLabel={(v) => `${v} miles`}
+      />
+
+      <Slider
+        label="Minimum Rating"
+        value={filters.minRating}
+        onChange={(minRating) => setFilters((prev) => ({ ...prev, minRating }))}
+        min={1}
+        max={5}
+        step={0.1}
+        valueLabel={(v) => `${v.toFixed(1)} ★`}
+      />
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Price Range
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {PRICE_LEVELS.map((level) => (
+            <Chip
+              key={level}
+              label={level}
+              selected={filters.priceRange.includes(level)}
+              onClick={() => togglePriceLevel(level)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Cuisine Types
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {ALL_CUISINES.map((cuisine) => (
+            <Chip
+              key={cuisine}
+              label={CUISINE_LABELS[cuisine]}
+              selected={filters.cuisineTypes.includes(cuisine)}
+              onClick={() => toggleCuisine(cuisine)}
+              size="sm"
+            />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Changing filters finds new restaurants and clears everyone&apos;s votes.
+      </p>
+
+      <div className="flex gap-3">
+        <Button variant="secondary" onClick={onCancel} fullWidth>
+          Cancel
+        </Button>
+        <Button onClick={() => onSubmit(filters)} fullWidth>
+          Update Filters
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Optional deadline for deciding: "decide in 5 minutes" or "by 6:30pm"
+ * (host only). When it runs out, /swipe moves everyone on.
+ */
+
+import { TimeBox, TIME_BOX_MINUTES } from '@/types';
+import { SegmentedControl, Input } from '@/components/ui';
+
+interface TimeBoxPickerProps {
+  timeBox: TimeBox | null;
+  readOnly: boolean;
+  onChange: (timeBox: TimeBox | null) => void;
+}
+
+// "HH:MM" in local time, as a time input expects
+function toTimeValue(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// The next time the clock reads "HH:MM" (today, or tomorrow if that's passed)
+function fromTimeValue(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= Date.now()) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date.getTime();
+}
+
+export function TimeBoxPicker({ timeBox, readOnly, onChange }: TimeBoxPickerProps) {
+  const value = !timeBox ? 'off' : timeBox.kind === 'clock' ? 'clock' : String(timeBox.minutes);
+
+  const handleChange = (next: string) => {
+    if (next === 'off') {
+      onChange(null);
+    } else if (next === 'clock') {
+      // Half an hour from now, on the nearest 5 minutes
+      const fiveMinutes = 5 * 60 * 1000;
+      onChange({
+        kind: 'clock',
+        at: Math.ceil((Date.now() + 30 * 60 * 1000) / fiveMinutes) * fiveMinutes,
+      });
+    } else {
+      onChange({ kind: 'duration', minutes: Number(next) });
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Time Limit
+      </h3>
+
+      {!readOnly && (
+        <SegmentedControl
+          options={[
+            { value: 'off', label: 'Off' },
+            ...TIME_BOX_MINUTES.map((minutes) => ({
+              value: String(minutes),
+              label: `${minutes} min`,
+            })),
+            { value: 'clock', label: 'By…' },
+          ]}
+          value={value}
+          onChange={handleChange}
+          size="sm"
+          className="w-full mb-3"
+        />
+      )}
+
+      {!readOnly && timeBox?.kind === 'clock' && (
+        <Input
+          type="time"
+          value={toTimeValue(timeBox.at)}
+          onChange={(e) => e.target.value && onChange({ kind: 'clock', at: fromTimeValue(e.target.value) })}
+          className="mb-3"
+        />
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {!timeBox
+          ? 'Swipe for as long as it takes.'
+          : timeBox.kind === 'clock'
+            ? `Decide by ${new Date(timeBox.at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}. Then it's the shortlist, or the closest call.`
+            : `Decide within ${timeBox.minutes} minutes of starting to swipe. Then it's the shortlist, or the closest call.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * Picks how the party votes: swiping card by card, or spending a budget
+ * of approvals across a grid of the deck (host only)
+ */
+
+import {
+  VotingMode,
+  VOTING_MODE_LABELS,
+  APPROVAL_MODE_SUGGESTED_DINERS,
+} from '@/types';
+import { SegmentedControl, Slider } from '@/components/ui';
+
+const MODES: VotingMode[] = ['swipe', 'approval'];
+
+interface VotingModePickerProps {
+  votingMode: VotingMode;
+  approvalBudget: number;
+  dinerCount: number;
+  hasVotes: boolean;
+  readOnly: boolean;
+  onModeChange: (mode: VotingMode) => void;
+  onBudgetChange: (budget: number) => void;
+}
+
+export function VotingModePicker({
+  votingMode,
+  approvalBudget,
+  dinerCount,
+  hasVotes,
+  readOnly,
+  onModeChange,
+  onBudgetChange,
+}: VotingModePickerProps) {
+  const handleModeChange = (mode: VotingMode) => {
+    if (!hasVotes || confirm('Switch voting mode? Everyone\'s votes so far will be cleared.')) {
+      onModeChange(mode);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        How to Vote
+      </h3>
+
+      {!readOnly && (
+        <SegmentedControl
+          options={MODES.map((mode) => ({ value: mode, label: VOTING_MODE_LABELS[mode] }))}
+          value={votingMode}
+          onChange={(mode) => handleModeChange(mode as VotingMode)}
+          size="sm"
+          className="w-full mb-3"
+        />
+      )}
+
+      {!readOnly && votingMode === 'approval' && (
+        <Slider
+          label="Approvals per diner"
+          value={approvalBudget}
+          onChange={onBudgetChange}
+          min={1}
+          max={10}
+          step={1}
+          valueLabel={(v) => `${v}`}
+          className="mb-3"
+        />
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {votingMode === 'approval'
+          ? `Everyone picks up to ${approvalBudget} favorites from a grid. Most approvals wins.`
+          : dinerCount >= APPROVAL_MODE_SUGGESTED_DINERS
+            ? 'Everyone swipes every card. Big group? Approvals are quicker.'
+            : 'Everyone swipes every card.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+/**
+ * Grid of the whole deck for approval mode: a diner spends a budget of
+ * approvals (and their vetoes) instead of swiping card by card
+ */
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Restaurant, VoteStatus } from '@/types';
+import { Modal } from '@/components/ui';
+import { RestaurantCardBody, RestaurantMeta } from './RestaurantCardBody';
+
+interface ApprovalGridProps {
+  restaurants: Restaurant[];
+  votes: Record<string, VoteStatus>; // This diner's votes by restaurant
+  approvalsRemaining: number;
+  vetoesRemaining: number;
+  onToggleApproval: (restaurantId: string) => void;
+  onToggleVeto: (restaurantId: string) => void;
+}
+
+export function ApprovalGrid({
+  restaurants,
+  votes,
+  approvalsRemaining,
+  vetoesRemaining,
+  onToggleApproval,
+  onToggleVeto,
+}: ApprovalGridProps) {
+  const [details, setDetails] = useState<Restaurant | null>(null);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {restaurants.map((restaurant) => {
+          const vote = votes[restaurant.id] || 'unknown';
+          const isApproved = vote === 'yes';
+          const isVetoed = vote === 'veto';
+
+          return (
+            <div
+              key={restaurant.id}
+              className={`bg-white dark:bg-gray-800 rounded-2xl overflow-hidden shadow-sm transition-all ${
+                isApproved ? 'ring-2 ring-blue-500' : ''
+              } ${isVetoed ? 'opacity-50 grayscale' : ''}`}
+            >
+              <button
+                onClick={() => setDetails(restaurant)}
+                className="relative block w-full aspect-square"
+              >
+                <Image
+                  src={restaurant.photos[0]}
+                  alt={restaurant.name}
+                  fill
+                  className="object-cover"
+                />
+                {isApproved && (
+                  <span className="absolute top-2 right-2 w-7 h-7 rounded-full bg-blue-500 text-white flex items-center justify-center shadow">
+                    ★
+                  </span>
+                )}
+              </button>
+
+              <div className="p-2">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                  {restaurant.name}
+                </h3>
+                <RestaurantMeta restaurant={restaurant} className="text-xs" />
+
+                <div className="flex gap-1 mt-2">
+                  <button
+                    onClick={() => onToggleApproval(restaurant.id)}
+                    disabled={!isApproved && approvalsRemaining === 0}
+                    className={`flex-1 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-40 ${
+                      isApproved
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-blue-50 dark:hover:bg-blue-950'
+                    }`}
+                  >
+                    {isApproved ? 'Approved' : 'Approve'}
+                  </button>
+                  <button
+                    onClick={() => onToggleVeto(restaurant.id)}
+                    disabled={!isVetoed && vetoesRemaining === 0}
+                    title={isVetoed ? 'Take back veto' : 'Veto'}
+                    className={`px-2 py-1 rounded-full text-xs font-medium transition-colors disabled:opacity-40 ${
+                      isVetoed
+                        ? 'bg-gray-900 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={3}
+                        d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Modal isOpen={!!details} onClose={() => setDetails(null)}>
+        {details && (
+          <div className="h-[70vh]">
+            <RestaurantCardBody restaurant={details} />
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+}
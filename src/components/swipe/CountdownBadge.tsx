@@ -0,0 +1,38 @@
+'use client';
+
+/**
+ * Time left on the party's time box (turns urgent in the last minute)
+ */
+
+import { formatCountdown } from '@/utils/helpers';
+
+interface CountdownBadgeProps {
+  msLeft: number;
+}
+
+export function CountdownBadge({ msLeft }: CountdownBadgeProps) {
+  const isUrgent = msLeft <= 60 * 1000;
+
+  return (
+    <div
+      className={`
+        mx-auto mt-2 flex w-fit items-center gap-2 px-3 py-1 rounded-full text-xs font-medium tabular-nums
+        ${
+          isUrgent
+            ? 'bg-rose-100 text-rose-700 dark:bg-rose-950 dark:text-rose-200 animate-pulse'
+            : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300'
+        }
+      `}
+    >
+      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+        />
+      </svg>
+      {formatCountdown(msLeft)} left to decide
+    </div>
+  );
+}
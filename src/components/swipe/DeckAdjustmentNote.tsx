@@ -0,0 +1,28 @@
+'use client';
+
+/**
+ * Explains why the rest of the deck was re-ranked, e.g. "Showing fewer
+ * Japanese places because 3 of 4 said no"
+ */
+
+import { DeckAdjustment } from '@/types';
+import { describeDeckAdjustment } from '@/utils/helpers';
+
+interface DeckAdjustmentNoteProps {
+  adjustments: DeckAdjustment[];
+  className?: string;
+}
+
+export function DeckAdjustmentNote({ adjustments, className = '' }: DeckAdjustmentNoteProps) {
+  if (adjustments.length === 0) return null;
+
+  return (
+    <ul className={`text-xs text-gray-400 dark:text-gray-500 text-center space-y-0.5 ${className}`}>
+      {adjustments.map((adjustment) => (
+        <li key={`${adjustment.kind}:${adjustment.value}`}>
+          {describeDeckAdjustment(adjustment)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+/**
+ * Overlay shown for remote parties when this device hasn't picked a diner yet
+ * Each device votes as exactly one diner
+ */
+
+import { motion } from 'framer-motion';
+import { Profile } from '@/types';
+import { Avatar } from '@/components/ui';
+
+interface DinerPickerOverlayProps {
+  profiles: Profile[];
+  onSelect: (profileId: string) => void;
+}
+
+export function DinerPickerOverlay({ profiles, onSelect }: DinerPickerOverlayProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/80 backdrop-blur-md rounded-3xl"
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        transition={{ delay: 0.1, type: 'spring' }}
+        className="text-center p-8 w-full"
+      >
+        <p className="text-gray-400 text-sm uppercase tracking-wide mb-2">
+          Everyone votes from their own phone
+        </p>
+        <h3 className="text-2xl font-bold text-white mb-6">
+          Who&apos;s swiping here?
+        </h3>
+
+        <div className="space-y-3 max-w-xs mx-auto">
+          {profiles.map((profile) => (
+            <motion.button
+              key={profile.id}
+              whileTap={{ scale: 0.97 }}
+              onClick={() => onSelect(profile.id)}
+              className="w-full flex items-center gap-3 p-3 rounded-xl bg-white/10 hover:bg-white/20 transition-colors text-left"
+            >
+              <Avatar src={profile.avatar} alt={profile.name} size="md" />
+              <span className="font-semibold text-white truncate">
+                {profile.name}
+              </span>
+            </motion.button>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+/**
+ * Lists the restaurants a diner has already swiped past so they can
+ * change their vote (no, maybe or yes)
+ */
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Profile, Restaurant, VoteStatus, CUISINE_LABELS } from '@/types';
+import { SegmentedControl } from '@/components/ui';
+
+interface MyVotesListProps {
+  diners: Profile[]; // Diners voting on this device
+  restaurants: Restaurant[];
+  votes: Record<string, Record<string, VoteStatus>>;
+  onChangeVote: (dinerId: string, restaurantId: string, status: VoteStatus) => void;
+}
+
+const VOTE_OPTIONS: { status: VoteStatus; label: string; selectedClass: string }[] = [
+  { status: 'no', label: 'No', selectedClass: 'bg-red-500 text-white' },
+  { status: 'maybe', label: 'Maybe', selectedClass: 'bg-green-500 text-white' },
+  { status: 'yes', label: 'Yes!', selectedClass: 'bg-blue-500 text-white' },
+];
+
+export function MyVotesList({ diners, restaurants, votes, onChangeVote }: MyVotesListProps) {
+  const [selectedDinerId, setSelectedDinerId] = useState(diners[0]?.id ?? '');
+
+  // Fall back to the first diner if the selected one left the party
+  const dinerId = diners.some((d) => d.id === selectedDinerId)
+    ? selectedDinerId
+    : diners[0]?.id ?? '';
+
+  if (!dinerId) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diners.length > 1 && (
+        <SegmentedControl
+          options={diners.map((d) => ({ value: d.id, label: d.name.split(' ')[0] }))}
+          value={dinerId}
+          onChange={setSelectedDinerId}
+          size="sm"
+        />
+      )}
+
+      {restaurants.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+          Nothing swiped yet.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {restaurants.map((restaurant) => {
+            const vote = votes[restaurant.id]?.[dinerId] || 'unknown';
+
+            return (
+              <div
+                key={restaurant.id}
+                className="flex items-center gap-3 p-2 rounded-xl bg-white dark:bg-gray-800 shadow-sm"
+              >
+                <div className="relative w-12 h-12 rounded-lg overflow-hidden flex-shrink-0">
+                  <Image
+                    src={restaurant.photos[0]}
+                    alt={restaurant.name}
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                    {restaurant.name}
+                  </h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {CUISINE_LABELS[restaurant.cuisines[0]]} • {restaurant.priceLevel}
+                    {vote === 'veto' && (
+                      <span className="ml-1 font-medium text-gray-900 dark:text-white">• Vetoed</span>
+                    )}
+                    {vote === 'unknown' && <span className="ml-1">• Not voted</span>}
+                  </p>
+                </div>
+
+                <div className="flex gap-1">
+                  {VOTE_OPTIONS.map((option) => (
+                    <button
+                      key={option.status}
+                      onClick={() => onChangeVote(dinerId, restaurant.id, option.status)}
+                      disabled={vote === option.status}
+                      className={`px-2 py-1 rounded-full text-xs font-medium transition-colors ${
+                        vote === option.status
+                          ? option.selectedClass
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
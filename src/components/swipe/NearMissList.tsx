@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * Restaurants that almost made the shortlist, with who held out and a
+ * button to ask just those diners to take another look
+ */
+
+import { NearMiss, Profile, PartyState } from '@/types';
+
+interface NearMissListProps {
+  nearMisses: NearMiss[];
+  profiles: Profile[];
+  votes: PartyState['votes'];
+  isAsked: (nearMiss: NearMiss) => boolean;
+  onAsk: (restaurantId: string) => void;
+}
+
+export function NearMissList({ nearMisses, profiles, votes, isAsked, onAsk }: NearMissListProps) {
+  const firstName = (profileId: string) =>
+    profiles.find((p) => p.id === profileId)?.name.split(' ')[0] || 'Someone';
+
+  // Group holdouts by what they actually said
+  const describeHoldouts = (nearMiss: NearMiss) => {
+    const said = (matches: (vote: string) => boolean) =>
+      nearMiss.holdoutIds
+        .filter((id) => matches(votes[nearMiss.restaurant.id]?.[id] || 'unknown'))
+        .map(firstName)
+        .join(', ');
+
+    return [
+      ['No', said((v) => v === 'no')],
+      ['Not yet', said((v) => v === 'unknown')],
+      ['Only a maybe', said((v) => v === 'maybe')],
+    ]
+      .filter(([, names]) => names)
+      .map(([label, names]) => `${label}: ${names}`)
+      .join(' · ');
+  };
+
+  return (
+    <div className="w-full max-w-xs space-y-2">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 text-center">
+        Almost made it
+      </h3>
+      {nearMisses.map((nearMiss) => {
+        const asked = isAsked(nearMiss);
+
+        return (
+          <div
+            key={nearMiss.restaurant.id}
+            className="p-3 rounded-xl bg-white dark:bg-gray-800 shadow-sm"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900 dark:text-white truncate">
+                {nearMiss.restaurant.name}
+              </span>
+              <span className="text-xs text-rose-500 whitespace-nowrap">
+                {nearMiss.votesShort} {nearMiss.votesShort === 1 ? 'vote' : 'votes'} short
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {describeHoldouts(nearMiss)}
+            </p>
+            <button
+              onClick={() => onAsk(nearMiss.restaurant.id)}
+              disabled={asked}
+              className="mt-2 text-sm font-medium text-rose-500 hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {asked ? 'Asked to reconsider' : 'Ask them to reconsider'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
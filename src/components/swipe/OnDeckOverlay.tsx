@@ -13,9 +13,14 @@ import { Button } from '@/components/ui';
 interface OnDeckOverlayProps {
   profile: Profile;
   onReady: () => void;
+  instructions?: string;
 }
 
-export function OnDeckOverlay({ profile, onReady }: OnDeckOverlayProps) {
+export function OnDeckOverlay({
+  profile,
+  onReady,
+  instructions = 'Swipe through all 10 restaurants',
+}: OnDeckOverlayProps) {
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -55,7 +60,7 @@ export function OnDeckOverlay({ profile, onReady }: OnDeckOverlayProps) {
             {profile.name}
           </h3>
           <p className="text-gray-400 text-sm mb-6">
-            Swipe through all 10 restaurants
+            {instructions}
           </p>
 
           <Button
@@ -0,0 +1,106 @@
+'use client';
+
+/**
+ * Private ranked-choice ballot: one diner orders the shortlist from
+ * favorite to least favorite
+ */
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import Image from 'next/image';
+import { Profile, Restaurant, CUISINE_LABELS } from '@/types';
+import { Avatar, Button } from '@/components/ui';
+
+interface RankedChoiceBallotProps {
+  diner: Profile;
+  restaurants: Restaurant[]; // Starting order
+  onSubmit: (restaurantIds: string[]) => void;
+}
+
+export function RankedChoiceBallot({ diner, restaurants, onSubmit }: RankedChoiceBallotProps) {
+  const [order, setOrder] = useState(() => restaurants.map((r) => r.id));
+  const byId = new Map(restaurants.map((r) => [r.id, r]));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+
+    setOrder((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-center gap-2">
+        <Avatar src={diner.avatar} alt={diner.name} size="sm" />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {diner.name.split(' ')[0]}, put your favorite on top
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {order.map((id, index) => {
+          const restaurant = byId.get(id);
+          if (!restaurant) return null;
+
+          return (
+            <motion.div
+              key={id}
+              layout
+              className="flex items-center gap-3 p-2 rounded-xl bg-white dark:bg-gray-800 shadow-sm"
+            >
+              <span className="w-7 h-7 rounded-full bg-rose-500 text-white text-sm font-bold flex items-center justify-center flex-shrink-0">
+                {index + 1}
+              </span>
+              <div className="relative w-12 h-12 rounded-lg overflow-hidden flex-shrink-0">
+                <Image
+                  src={restaurant.photos[0]}
+                  alt={restaurant.name}
+                  fill
+                  className="object-cover"
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                  {restaurant.name}
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {CUISINE_LABELS[restaurant.cuisines[0]]} • {restaurant.priceLevel}
+                </p>
+              </div>
+              <div className="flex flex-col">
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${restaurant.name} up`}
+                  className="p-1 text-gray-400 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === order.length - 1}
+                  aria-label={`Move ${restaurant.name} down`}
+                  className="p-1 text-gray-400 hover:text-rose-500 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+
+      <Button onClick={() => onSubmit(order)} fullWidth size="lg">
+        Submit My Ranking
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+/**
+ * Round-by-round instant-runoff results for the ranked-choice vote
+ */
+
+import { motion } from 'framer-motion';
+import { Restaurant, RankedChoiceResult } from '@/types';
+
+interface RankedChoiceResultsProps {
+  result: RankedChoiceResult;
+  restaurants: Restaurant[];
+}
+
+export function RankedChoiceResults({ result, restaurants }: RankedChoiceResultsProps) {
+  const nameOf = (id: string) => restaurants.find((r) => r.id === id)?.name || 'Unknown';
+
+  return (
+    <div className="space-y-4">
+      {result.rounds.map((round, index) => {
+        const standings = Object.entries(round.tallies).sort(([, a], [, b]) => b - a);
+        const total = standings.reduce((sum, [, count]) => sum + count, 0);
+        const isFinal = round.eliminatedId === null;
+
+        return (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.4 }}
+            className="p-4 rounded-2xl bg-white dark:bg-gray-800 shadow-sm"
+          >
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+              Round {index + 1}
+            </h3>
+
+            <div className="space-y-2">
+              {standings.map(([id, count]) => {
+                const isWinner = isFinal && id === result.winnerId;
+                const isOut = id === round.eliminatedId;
+
+                return (
+                  <div key={id}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span
+                        className={`truncate ${
+                          isOut
+                            ? 'line-through text-gray-400 dark:text-gray-500'
+                            : isWinner
+                              ? 'font-semibold text-rose-500'
+                              : 'text-gray-900 dark:text-white'
+                        }`}
+                      >
+                        {isWinner && '🏆 '}
+                        {nameOf(id)}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 ml-2">
+                        {count}
+                      </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${isOut ? 'bg-gray-300 dark:bg-gray-600' : 'bg-rose-500'}`}
+                        style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {round.eliminatedId && (
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                {nameOf(round.eliminatedId)} is out
+                {round.tiebreak &&
+                  ` (tied for fewest, lowest Borda score ${result.bordaScores[round.eliminatedId]})`}
+                , its votes move to each diner&apos;s next choice.
+              </p>
+            )}
+          </motion.div>
+        );
+      })}
+    </div>
+  );
+}
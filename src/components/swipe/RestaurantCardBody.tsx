@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * Restaurant card contents (photos, address, cuisines, description),
+ * shared by the swipe deck and the approval grid. With onToggleExpanded,
+ * a "More info" button expands the full details.
+ */
+
+import { Restaurant } from '@/types';
+import { PhotoCarousel } from '@/components/common/PhotoCarousel';
+import { openInMaps } from '@/utils/helpers';
+import { RestaurantDetails } from './RestaurantDetails';
+
+interface RestaurantMetaProps {
+  restaurant: Restaurant;
+  className?: string;
+}
+
+/**
+ * Rating, price and distance on one line
+ */
+export function RestaurantMeta({ restaurant, className = '' }: RestaurantMetaProps) {
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <div className="flex items-center gap-1">
+        <span className="text-yellow-500">★</span>
+        <span className="font-semibold text-gray-700 dark:text-gray-300">
+          {restaurant.rating.toFixed(1)}
+        </span>
+      </div>
+      <span className="text-gray-400">•</span>
+      <span className="text-gray-600 dark:text-gray-400">
+        {restaurant.priceLevel}
+      </span>
+      <span className="text-gray-400">•</span>
+      <span className="text-gray-600 dark:text-gray-400">
+        {restaurant.distanceMiles.toFixed(1)} mi
+      </span>
+    </div>
+  );
+}
+
+interface RestaurantCardBodyProps {
+  restaurant: Restaurant;
+  isExpanded?: boolean;
+  isLoadingDetails?: boolean;
+  onToggleExpanded?: () => void;
+}
+
+export function RestaurantCardBody({
+  restaurant,
+  isExpanded = false,
+  isLoadingDetails = false,
+  onToggleExpanded,
+}: RestaurantCardBodyProps) {
+  return (
+    <div className="h-full bg-white dark:bg-gray-900 rounded-3xl shadow-xl overflow-hidden border border-gray-100 dark:border-gray-800">
+      <div className="h-full flex flex-col">
+        {/* Restaurant name header */}
+        <div className="px-5 pt-5 pb-3">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {restaurant.name}
+          </h2>
+          <RestaurantMeta restaurant={restaurant} className="mt-1" />
+        </div>
+
+        {/* Photo carousel */}
+        <div className="px-5">
+          <PhotoCarousel photos={restaurant.photos} alt={restaurant.name} />
+        </div>
+
+        {/* Details (scrolls, so SwipeCard never starts a swipe here) */}
+        <div className="flex-1 px-5 py-4 overflow-y-auto" data-card-details>
+          {/* Address (clickable) */}
+          <button
+            onClick={() => openInMaps(restaurant.address, restaurant.lat, restaurant.lng)}
+            className="flex items-start gap-2 text-left group"
+          >
+            <svg
+              className="w-5 h-5 text-gray-400 mt-0.5 shrink-0"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+            <span className="text-sm text-gray-600 dark:text-gray-400 group-hover:text-rose-500 transition-colors">
+              {restaurant.address}
+            </span>
+          </button>
+
+          {/* Cuisine tags */}
+          <div className="flex flex-wrap gap-2 mt-3">
+            {restaurant.cuisines.map((cuisine) => (
+              <span
+                key={cuisine}
+                className="px-2.5 py-1 text-xs font-medium bg-rose-50 dark:bg-rose-950 text-rose-600 dark:text-rose-400 rounded-full capitalize"
+              >
+                {cuisine}
+              </span>
+            ))}
+            {restaurant.familyFriendly && (
+              <span className="px-2.5 py-1 text-xs font-medium bg-green-50 dark:bg-green-950 text-green-600 dark:text-green-400 rounded-full">
+                Family Friendly
+              </span>
+            )}
+          </div>
+
+          {/* Description */}
+          <p className="mt-3 text-sm text-gray-600 dark:text-gray-400 leading-relaxed">
+            {restaurant.description}
+          </p>
+
+          {onToggleExpanded && (
+            <button
+              onClick={onToggleExpanded}
+              className="mt-3 text-sm font-medium text-rose-500 hover:underline"
+            >
+              {isExpanded ? 'Less info' : 'More info'}
+            </button>
+          )}
+
+          {isExpanded && (
+            <div className="mt-3">
+              <RestaurantDetails restaurant={restaurant} isLoading={isLoadingDetails} />
+            </div>
+          )}
+
+          {restaurant.source && (
+            <p className="mt-3 text-xs text-gray-400 dark:text-gray-500">
+              Data: {restaurant.source.attribution}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * Expanded restaurant info: summary, weekly hours, what it offers, review
+ * snippets and contact links. Shown once details are loaded (see
+ * useRestaurantDetailsStore).
+ */
+
+import {
+  Restaurant,
+  RestaurantAttribute,
+  RESTAURANT_ATTRIBUTE_LABELS,
+} from '@/types';
+import { isOpenAt } from '@/utils/helpers';
+
+interface RestaurantDetailsProps {
+  restaurant: Restaurant;
+  isLoading: boolean;
+}
+
+export function RestaurantDetails({ restaurant, isLoading }: RestaurantDetailsProps) {
+  const { openingHours, editorialSummary, reviews = [], attributes = {} } = restaurant;
+
+  const offered = (Object.keys(attributes) as RestaurantAttribute[]).filter(
+    (attribute) => attributes[attribute]
+  );
+  // weekdayDescriptions start on Monday
+  const todayIndex = (new Date().getDay() + 6) % 7;
+  const hasDetails =
+    !!openingHours || !!editorialSummary || reviews.length > 0 || offered.length > 0;
+
+  if (isLoading && !hasDetails) {
+    return (
+      <p className="text-sm text-gray-400 dark:text-gray-500">Loading details…</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {editorialSummary && (
+        <p className="text-gray-700 dark:text-gray-300 italic">{editorialSummary}</p>
+      )}
+
+      {openingHours && (
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <h4 className="font-semibold text-gray-900 dark:text-white">Hours</h4>
+            {openingHours.periods.length > 0 && (
+              <span
+                className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                  isOpenAt(openingHours)
+                    ? 'bg-green-50 dark:bg-green-950 text-green-600 dark:text-green-400'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {isOpenAt(openingHours) ? 'Open now' : 'Closed now'}
+              </span>
+            )}
+          </div>
+          <ul className="text-gray-600 dark:text-gray-400">
+            {openingHours.weekdayDescriptions.map((line, index) => (
+              <li
+                key={line}
+                className={index === todayIndex ? 'font-medium text-gray-900 dark:text-white' : ''}
+              >
+                {line}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {offered.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {offered.map((attribute) => (
+            <span
+              key={attribute}
+              className="px-2.5 py-1 text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-full"
+            >
+              {RESTAURANT_ATTRIBUTE_LABELS[attribute]}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-900 dark:text-white">Reviews</h4>
+          {reviews.map((review, index) => (
+            <div key={index}>
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="text-yellow-500">{'★'.repeat(Math.round(review.rating))}</span>
+                <span className="font-medium">{review.author}</span>
+                {review.relativeTime && <span>· {review.relativeTime}</span>}
+              </div>
+              <p className="mt-1 text-gray-600 dark:text-gray-400 line-clamp-4">{review.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(restaurant.phone || restaurant.website) && (
+        <div className="flex gap-4">
+          {restaurant.phone && (
+            <a href={`tel:${restaurant.phone}`} className="font-medium text-rose-500 hover:underline">
+              {restaurant.phone}
+            </a>
+          )}
+          {restaurant.website && (
+            <a
+              href={restaurant.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-rose-500 hover:underline"
+            >
+              Website
+            </a>
+          )}
+        </div>
+      )}
+
+      {!hasDetails && !restaurant.phone && !restaurant.website && (
+        <p className="text-gray-400 dark:text-gray-500">No more details for this place.</p>
+      )}
+    </div>
+  );
+}
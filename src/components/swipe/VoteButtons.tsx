@@ -2,6 +2,7 @@
 
 /**
  * Vote buttons for accessibility (alternative to swiping)
+ * Undo, veto and strong yes get smaller buttons around no and maybe
  */
 
 import { motion } from 'framer-motion';
@@ -9,12 +10,65 @@ import { motion } from 'framer-motion';
 interface VoteButtonsProps {
   onNo: () => void;
   onMaybe: () => void;
+  onYes: () => void;
+  onVeto: () => void;
+  onUndo: () => void;
+  vetoesRemaining: number;
+  canUndo: boolean;
   disabled?: boolean;
 }
 
-export function VoteButtons({ onNo, onMaybe, disabled = false }: VoteButtonsProps) {
+export function VoteButtons({
+  onNo,
+  onMaybe,
+  onYes,
+  onVeto,
+  onUndo,
+  vetoesRemaining,
+  canUndo,
+  disabled = false,
+}: VoteButtonsProps) {
   return (
-    <div className="flex items-center justify-center gap-6">
+    <div className="flex items-center justify-center gap-4">
+      {/* Undo button */}
+      <motion.button
+        whileTap={{ scale: 0.9 }}
+        onClick={onUndo}
+        disabled={disabled || !canUndo}
+        title="Undo last swipe (or shake your phone)"
+        className="w-10 h-10 rounded-full bg-white dark:bg-gray-800 shadow-lg flex items-center justify-center border-4 border-amber-400 text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-950 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={3}
+            d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+          />
+        </svg>
+      </motion.button>
+
+      {/* Veto button */}
+      <motion.button
+        whileTap={{ scale: 0.9 }}
+        onClick={onVeto}
+        disabled={disabled || vetoesRemaining === 0}
+        title={`Veto (${vetoesRemaining} left)`}
+        className="relative w-12 h-12 rounded-full bg-white dark:bg-gray-800 shadow-lg flex items-center justify-center border-4 border-gray-800 dark:border-gray-300 text-gray-800 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={3}
+            d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+          />
+        </svg>
+        <span className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-gray-800 dark:bg-gray-300 text-white dark:text-gray-900 text-xs font-bold flex items-center justify-center">
+          {vetoesRemaining}
+        </span>
+      </motion.button>
+
       {/* No Way button */}
       <motion.button
         whileTap={{ scale: 0.9 }}
@@ -48,6 +102,19 @@ export function VoteButtons({ onNo, onMaybe, disabled = false }: VoteButtonsProp
           />
         </svg>
       </motion.button>
+
+      {/* Strong yes button */}
+      <motion.button
+        whileTap={{ scale: 0.9 }}
+        onClick={onYes}
+        disabled={disabled}
+        title="Yes, I really want this"
+        className="w-12 h-12 rounded-full bg-white dark:bg-gray-800 shadow-lg flex items-center justify-center border-4 border-blue-500 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-950 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z" />
+        </svg>
+      </motion.button>
     </div>
   );
 }
@@ -1,46 +1,88 @@
 'use client';
 
 /**
- * Shows voting status of all diners for current restaurant
+ * Shows voting status of all diners for current restaurant,
+ * plus who is online and which card they're on
  */
 
-import { Profile, VoteStatus } from '@/types';
+import { Profile, VoteStatus, DinerPresence } from '@/types';
 import { Avatar } from '@/components/ui';
+import { formatTimeAgo } from '@/utils/helpers';
 
 interface VoterStatusProps {
   profiles: Profile[];
   votes: Record<string, VoteStatus>;
   currentDinerId?: string;
+  presence?: Record<string, DinerPresence>;
+  showHoldouts?: boolean; // List diners who haven't voted yet (for the host)
 }
 
-export function VoterStatus({ profiles, votes, currentDinerId }: VoterStatusProps) {
+function describePresence(presence: DinerPresence | undefined): string {
+  if (!presence) return 'not here yet';
+  if (presence.online) return `card ${presence.cardIndex + 1}`;
+  return formatTimeAgo(presence.lastActiveAt);
+}
+
+export function VoterStatus({
+  profiles,
+  votes,
+  currentDinerId,
+  presence = {},
+  showHoldouts = false,
+}: VoterStatusProps) {
+  const holdouts = profiles.filter(
+    (p) => p.id !== currentDinerId && (votes[p.id] || 'unknown') === 'unknown'
+  );
+
   return (
-    <div className="flex items-center justify-center gap-2 flex-wrap">
-      {profiles.map((profile) => {
-        const vote = votes[profile.id] || 'unknown';
-        const isCurrent = profile.id === currentDinerId;
-
-        return (
-          <div
-            key={profile.id}
-            className={`
-              flex flex-col items-center gap-1 p-2 rounded-lg
-              ${isCurrent ? 'bg-rose-50 dark:bg-rose-950 ring-2 ring-rose-500' : ''}
-            `}
-          >
-            <Avatar
-              src={profile.avatar}
-              alt={profile.name}
-              size="sm"
-              status={vote}
-              showStatus={vote !== 'unknown'}
-            />
-            <span className="text-xs text-gray-600 dark:text-gray-400 max-w-[60px] truncate">
-              {profile.name.split(' ')[0]}
-            </span>
-          </div>
-        );
-      })}
+    <div>
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        {profiles.map((profile) => {
+          const vote = votes[profile.id] || 'unknown';
+          const isCurrent = profile.id === currentDinerId;
+          const dinerPresence = presence[profile.id];
+
+          return (
+            <div
+              key={profile.id}
+              className={`
+                flex flex-col items-center gap-1 p-2 rounded-lg
+                ${isCurrent ? 'bg-rose-50 dark:bg-rose-950 ring-2 ring-rose-500' : ''}
+              `}
+            >
+              <Avatar
+                src={profile.avatar}
+                alt={profile.name}
+                size="sm"
+                status={vote}
+                showStatus={vote !== 'unknown'}
+              />
+              <span className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 max-w-[72px]">
+                <span
+                  className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                    dinerPresence?.online ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'
+                  }`}
+                />
+                <span className="truncate">{profile.name.split(' ')[0]}</span>
+              </span>
+              {!isCurrent && (
+                <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                  {describePresence(dinerPresence)}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {showHoldouts && holdouts.length > 0 && (
+        <p className="mt-2 text-center text-xs text-gray-500 dark:text-gray-400">
+          Waiting on{' '}
+          {holdouts
+            .map((p) => `${p.name.split(' ')[0]} (${describePresence(presence[p.id])})`)
+            .join(', ')}
+        </p>
+      )}
     </div>
   );
 }
@@ -27,8 +27,10 @@ const sizeStyles: Record<AvatarSize, { container: string; status: string }> = {
 
 const statusColors: Record<VoteStatus, string> = {
   unknown: 'bg-gray-400',
+  veto: 'bg-gray-900',
   no: 'bg-red-500',
   maybe: 'bg-green-500',
+  yes: 'bg-blue-500',
 };
 
 export function Avatar({
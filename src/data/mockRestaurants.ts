@@ -77,7 +77,11 @@ const FOOD_IMAGES = {
   ],
 };
 
-function getImagesForCuisine(cuisines: CuisineType[]): string[] {
+/**
+ * Placeholder photos for a restaurant's main cuisine (also used by
+ * providers that don't have photos of their own)
+ */
+export function getImagesForCuisine(cuisines: CuisineType[]): string[] {
   const primary = cuisines[0];
   return (
     FOOD_IMAGES[primary as keyof typeof FOOD_IMAGES] || FOOD_IMAGES.default
@@ -6,6 +6,8 @@
  *
  * In production, you would generate these types using:
  * npx supabase gen types typescript --project-id ntpwptybbmvrdvbdjemp > src/lib/database.types.ts
+ *
+ * Use the mappers in databaseMappers.ts to convert rows to app types.
  */
 
 export type Json =
@@ -24,9 +26,11 @@ export interface Database {
           id: string;
           name: string;
           phone: string;
+          age: number | null;
           avatar: string;
-          avatar_type: 'generated' | 'uploaded';
+          avatar_type: Database['public']['Enums']['avatar_type'];
           cuisine_preferences: Json;
+          is_favorite: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -34,9 +38,11 @@ export interface Database {
           id?: string;
           name: string;
           phone: string;
+          age?: number | null;
           avatar: string;
-          avatar_type?: 'generated' | 'uploaded';
+          avatar_type?: Database['public']['Enums']['avatar_type'];
           cuisine_preferences?: Json;
+          is_favorite?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -44,63 +50,155 @@ export interface Database {
           id?: string;
           name?: string;
           phone?: string;
+          age?: number | null;
           avatar?: string;
-          avatar_type?: 'generated' | 'uploaded';
+          avatar_type?: Database['public']['Enums']['avatar_type'];
           cuisine_preferences?: Json;
+          is_favorite?: boolean;
+          created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       parties: {
         Row: {
           id: string;
           invite_id: string;
+          status: Database['public']['Enums']['party_status'];
           host_profile_id: string | null;
           date_time: string | null;
           filters: Json;
+          joins_locked: boolean;
+          consensus: Json;
+          voting_mode: string;
+          approval_budget: number;
+          time_box: Json | null;
+          deck_order: string[] | null;
+          deck_adjustments: Json | null;
+          voting_reset_at: string | null;
+          deck: Json | null;
           matched_restaurant_id: string | null;
           matched_at: string | null;
+          current_restaurant_index: number;
+          current_in_person_diner_index: number;
+          in_person_diner_start_index: number;
+          seen_restaurant_ids: string[];
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           invite_id: string;
+          status?: Database['public']['Enums']['party_status'];
           host_profile_id?: string | null;
           date_time?: string | null;
-          filters: Json;
+          filters?: Json;
+          joins_locked?: boolean;
+          consensus?: Json;
+          voting_mode?: string;
+          approval_budget?: number;
+          time_box?: Json | null;
+          deck_order?: string[] | null;
+          deck_adjustments?: Json | null;
+          voting_reset_at?: string | null;
+          deck?: Json | null;
           matched_restaurant_id?: string | null;
           matched_at?: string | null;
+          current_restaurant_index?: number;
+          current_in_person_diner_index?: number;
+          in_person_diner_start_index?: number;
+          seen_restaurant_ids?: string[];
           created_at?: string;
           updated_at?: string;
         };
         Update: {
+          id?: string;
           invite_id?: string;
+          status?: Database['public']['Enums']['party_status'];
           host_profile_id?: string | null;
           date_time?: string | null;
           filters?: Json;
+          joins_locked?: boolean;
+          consensus?: Json;
+          voting_mode?: string;
+          approval_budget?: number;
+          time_box?: Json | null;
+          deck_order?: string[] | null;
+          deck_adjustments?: Json | null;
+          voting_reset_at?: string | null;
+          deck?: Json | null;
           matched_restaurant_id?: string | null;
           matched_at?: string | null;
+          current_restaurant_index?: number;
+          current_in_person_diner_index?: number;
+          in_person_diner_start_index?: number;
+          seen_restaurant_ids?: string[];
+          created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'parties_host_profile_id_fkey';
+            columns: ['host_profile_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       party_diners: {
         Row: {
           id: string;
           party_id: string;
           profile_id: string;
-          mode: 'remote' | 'onDeck';
+          mode: Database['public']['Enums']['attendance_mode'];
+          weight: number;
+          honoree: boolean;
+          ranking: string[] | null;
+          approvals_done: boolean;
+          reconsider: string[];
           joined_at: string;
         };
         Insert: {
           id?: string;
           party_id: string;
           profile_id: string;
-          mode?: 'remote' | 'onDeck';
+          mode?: Database['public']['Enums']['attendance_mode'];
+          weight?: number;
+          honoree?: boolean;
+          ranking?: string[] | null;
+          approvals_done?: boolean;
+          reconsider?: string[];
           joined_at?: string;
         };
         Update: {
-          mode?: 'remote' | 'onDeck';
+          id?: string;
+          party_id?: string;
+          profile_id?: string;
+          mode?: Database['public']['Enums']['attendance_mode'];
+          weight?: number;
+          honoree?: boolean;
+          ranking?: string[] | null;
+          approvals_done?: boolean;
+          reconsider?: string[];
+          joined_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'party_diners_party_id_fkey';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'party_diners_profile_id_fkey';
+            columns: ['profile_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       party_votes: {
         Row: {
@@ -108,7 +206,7 @@ export interface Database {
           party_id: string;
           profile_id: string;
           restaurant_id: string;
-          vote: 'no' | 'maybe';
+          vote: Database['public']['Enums']['vote_status'];
           voted_at: string;
         };
         Insert: {
@@ -116,20 +214,90 @@ export interface Database {
           party_id: string;
           profile_id: string;
           restaurant_id: string;
-          vote: 'no' | 'maybe';
+          vote: Database['public']['Enums']['vote_status'];
+          voted_at?: string;
+        };
+        Update: {
+          id?: string;
+          party_id?: string;
+          profile_id?: string;
+          restaurant_id?: string;
+          vote?: Database['public']['Enums']['vote_status'];
           voted_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'party_votes_party_id_fkey';
+            columns: ['party_id'];
+            isOneToOne: false;
+            referencedRelation: 'parties';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'party_votes_profile_id_fkey';
+            columns: ['profile_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      places_cache: {
+        Row: {
+          key: string;
+          restaurants: Json;
+          stored_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          key: string;
+          restaurants: Json;
+          stored_at?: string;
+          expires_at: string;
+        };
         Update: {
-          vote?: 'no' | 'maybe';
+          key?: string;
+          restaurants?: Json;
+          stored_at?: string;
+          expires_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      claim_party_match: {
+        Args: {
+          p_invite_id: string;
+          p_restaurant_id: string;
         };
+        Returns: string | null;
+      };
+      merge_party_votes: {
+        Args: {
+          p_invite_id: string;
+          p_votes: Json;
+        };
+        Returns: undefined;
       };
     };
-    Views: {};
-    Functions: {};
     Enums: {
       attendance_mode: 'remote' | 'inPerson';
-      vote_status: 'no' | 'maybe';
+      vote_status: 'veto' | 'no' | 'maybe' | 'yes' | 'unknown';
       avatar_type: 'generated' | 'uploaded';
+      party_status:
+        | 'draft'
+        | 'gathering'
+        | 'swiping'
+        | 'shortlisting'
+        | 'decided'
+        | 'expired'
+        | 'cancelled';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 }
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PartyDinerRow,
+  PartyRow,
+  PartyVoteRow,
+  ProfileRow,
+  dinerFromRow,
+  dinerToRow,
+  partyFromRows,
+  partyToRow,
+  profileFromRow,
+  profileToRow,
+} from './databaseMappers';
+import { mockRestaurants } from '@/data/mockRestaurants';
+import { DEFAULT_FILTERS, DinerSelection, PartyState, Profile } from '@/types';
+
+const PARTY_ID = 'party-uuid';
+
+const createdAt = Date.UTC(2024, 8, 1, 18, 0);
+
+const profile: Profile = {
+  id: 'profile-1',
+  name: 'Ada',
+  phone: '555-0100',
+  avatar: '<svg />',
+  avatarType: 'generated',
+  cuisinePreferences: { italian: 2, sushi: -1 },
+  isFavorite: true,
+  createdAt,
+  updatedAt: createdAt + 5000,
+};
+
+const diners: DinerSelection[] = [
+  { profileId: 'host', mode: 'inPerson' },
+  { profileId: 'guest', mode: 'remote', weight: 2, honoree: true, ranking: ['rest-002'] },
+  { profileId: 'late', mode: 'remote', approvalsDone: true, reconsider: ['rest-001'] },
+];
+
+const party: PartyState = {
+  inviteId: 'abc123',
+  status: 'swiping',
+  hostProfileId: 'host',
+  dateTime: '2024-09-01T19:30:00.000Z',
+  filters: { ...DEFAULT_FILTERS, cuisineTypes: ['italian'] },
+  selectedDiners: diners,
+  consensus: { rule: 'supermajority', threshold: 0.75 },
+  votingMode: 'swipe',
+  approvalBudget: 3,
+  timeBox: { kind: 'duration', minutes: 10 },
+  joinsLocked: true,
+  votingResetAt: createdAt + 1000,
+  deck: {
+    restaurantIds: mockRestaurants.slice(0, 2).map((r) => r.id),
+    restaurants: Object.fromEntries(mockRestaurants.slice(0, 2).map((r) => [r.id, r])),
+    createdAt: createdAt + 2000,
+  },
+  deckOrder: ['rest-002', 'rest-001'],
+  deckAdjustments: [{ kind: 'price', value: '$$$', rejectedBy: 2, votedOn: 3 }],
+  votes: {
+    'rest-001': { host: 'yes', guest: 'maybe' },
+    'rest-002': { late: 'veto' },
+  },
+  // Each device's own progress - never written, so left at the defaults
+  seenRestaurantIds: [],
+  matchedRestaurantId: null,
+  matchedAt: null,
+  currentRestaurantIndex: 0,
+  currentInPersonDinerIndex: 0,
+  inPersonDinerStartIndex: 0,
+  createdAt,
+  updatedAt: createdAt + 3000,
+};
+
+/**
+ * The rows the server ends up with after pushPartyChanges and pushVotes,
+ * with the columns it fills in itself
+ */
+function storedRows(state: PartyState) {
+  const row: PartyRow = {
+    id: PARTY_ID,
+    matched_restaurant_id: null,
+    matched_at: null,
+    current_restaurant_index: 0,
+    current_in_person_diner_index: 0,
+    in_person_diner_start_index: 0,
+    seen_restaurant_ids: [],
+    time_box: null,
+    deck_order: null,
+    deck_adjustments: null,
+    voting_reset_at: null,
+    deck: null,
+    status: 'draft',
+    host_profile_id: null,
+    date_time: null,
+    filters: {},
+    joins_locked: false,
+    consensus: { rule: 'unanimous' },
+    voting_mode: 'swipe',
+    approval_budget: 3,
+    created_at: new Date(state.createdAt).toISOString(),
+    updated_at: new Date(state.updatedAt).toISOString(),
+    ...partyToRow(state),
+  };
+
+  const dinerRows: PartyDinerRow[] = state.selectedDiners.map((d, index) => ({
+    id: `diner-${index}`,
+    joined_at: new Date(state.createdAt + index).toISOString(),
+    ...dinerToRow(d, PARTY_ID),
+  }));
+
+  const voteRows: PartyVoteRow[] = Object.entries(state.votes).flatMap(
+    ([restaurantId, byDiner]) =>
+      Object.entries(byDiner).map(([profileId, vote]) => ({
+        id: `${restaurantId}-${profileId}`,
+        party_id: PARTY_ID,
+        profile_id: profileId,
+        restaurant_id: restaurantId,
+        vote,
+        voted_at: new Date(state.updatedAt).toISOString(),
+      }))
+  );
+
+  return { row, dinerRows, voteRows };
+}
+
+describe('profiles', () => {
+  it('round-trips a profile', () => {
+    const row: ProfileRow = { age: null, ...profileToRow(profile) };
+    expect(profileFromRow(row)).toEqual(profile);
+  });
+});
+
+describe('diners', () => {
+  it.each(diners)('round-trips $profileId', (diner) => {
+    const row: PartyDinerRow = {
+      id: 'diner',
+      joined_at: new Date(createdAt).toISOString(),
+      ...dinerToRow(diner, PARTY_ID),
+    };
+    expect(dinerFromRow(row)).toEqual(diner);
+  });
+
+  it('stores unset fields as the column defaults', () => {
+    expect(dinerToRow({ profileId: 'host', mode: 'remote' }, PARTY_ID)).toEqual({
+      party_id: PARTY_ID,
+      profile_id: 'host',
+      mode: 'remote',
+      weight: 1,
+      honoree: false,
+      ranking: null,
+      approvals_done: false,
+      reconsider: [],
+    });
+  });
+
+  it('leaves defaults unset when read back', () => {
+    const diner = dinerFromRow({
+      id: 'diner',
+      party_id: PARTY_ID,
+      profile_id: 'host',
+      mode: 'remote',
+      weight: 1,
+      honoree: false,
+      ranking: null,
+      approvals_done: false,
+      reconsider: [],
+      joined_at: new Date(createdAt).toISOString(),
+    });
+
+    expect(diner.weight).toBeUndefined();
+    expect(diner.honoree).toBeUndefined();
+    expect(diner.ranking).toBeUndefined();
+    expect(diner.approvalsDone).toBeUndefined();
+    expect(diner.reconsider).toBeUndefined();
+  });
+});
+
+describe('parties', () => {
+  it('round-trips the shared party state', () => {
+    const { row, dinerRows, voteRows } = storedRows(party);
+    expect(partyFromRows(row, dinerRows, voteRows)).toEqual(party);
+  });
+
+  it('round-trips a party before the deck is ready', () => {
+    const draft: PartyState = {
+      ...party,
+      status: 'draft',
+      dateTime: null,
+      timeBox: null,
+      votingResetAt: null,
+      deck: null,
+      deckOrder: undefined,
+      deckAdjustments: undefined,
+      selectedDiners: [{ profileId: 'host', mode: 'inPerson' }],
+      votes: {},
+    };
+
+    const { row, dinerRows, voteRows } = storedRows(draft);
+    expect(partyFromRows(row, dinerRows, voteRows)).toEqual(draft);
+  });
+
+  it('orders diners by when they joined', () => {
+    const { row, dinerRows, voteRows } = storedRows(party);
+    const restored = partyFromRows(row, [...dinerRows].reverse(), voteRows);
+    expect(restored.selectedDiners.map((d) => d.profileId)).toEqual(['host', 'guest', 'late']);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Database Mappers
+ *
+ * Convert between Supabase rows (database.types.ts) and the app's types
+ * (src/types). Profiles and diners map to rows and back unchanged; diner
+ * fields at their defaults (weight 1, not the honoree, ...) are left unset,
+ * the way usePartyStore keeps them. A party row only holds what every device
+ * shares - swipe progress, the match and timestamps are each device's own
+ * or set by the server.
+ */
+
+import { Database, Json } from './database.types';
+import {
+  PartyState,
+  Profile,
+  DiningFilters,
+  DEFAULT_FILTERS,
+  DinerSelection,
+  CuisinePreferences,
+  PartyDeck,
+  ConsensusPolicy,
+  DEFAULT_CONSENSUS,
+  VotingMode,
+  TimeBox,
+  DeckAdjustment,
+} from '@/types';
+
+type Tables = Database['public']['Tables'];
+
+export type ProfileRow = Tables['profiles']['Row'];
+export type ProfileInsert = Tables['profiles']['Insert'];
+export type PartyRow = Tables['parties']['Row'];
+export type PartyInsert = Tables['parties']['Insert'];
+export type PartyDinerRow = Tables['party_diners']['Row'];
+export type PartyDinerInsert = Tables['party_diners']['Insert'];
+export type PartyVoteRow = Tables['party_votes']['Row'];
+export type PartyVoteInsert = Tables['party_votes']['Insert'];
+
+function toIso(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function toTimestamp(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+export function profileFromRow(row: ProfileRow): Profile {
+  return {
+    id: row.id,
+    name: row.name,
+    phone: row.phone,
+    avatar: row.avatar,
+    avatarType: row.avatar_type,
+    cuisinePreferences: (row.cuisine_preferences || {}) as CuisinePreferences,
+    isFavorite: row.is_favorite,
+    createdAt: toTimestamp(row.created_at),
+    updatedAt: toTimestamp(row.updated_at),
+  };
+}
+
+export function profileToRow(profile: Profile): Omit<ProfileRow, 'age'> {
+  return {
+    id: profile.id,
+    name: profile.name,
+    phone: profile.phone,
+    avatar: profile.avatar,
+    avatar_type: profile.avatarType,
+    cuisine_preferences: profile.cuisinePreferences as Json,
+    is_favorite: profile.isFavorite,
+    created_at: toIso(profile.createdAt),
+    updated_at: toIso(profile.updatedAt),
+  };
+}
+
+// ============================================================================
+// Parties
+// ============================================================================
+
+/**
+ * Build a PartyState from its party row plus diner and vote rows.
+ * Diners are ordered by when they joined.
+ */
+export function partyFromRows(
+  row: PartyRow,
+  diners: PartyDinerRow[],
+  votes: PartyVoteRow[]
+): PartyState {
+  const votesByRestaurant: PartyState['votes'] = {};
+  for (const vote of votes) {
+    votesByRestaurant[vote.restaurant_id] = {
+      ...(votesByRestaurant[vote.restaurant_id] || {}),
+      [vote.profile_id]: vote.vote,
+    };
+  }
+
+  const selectedDiners: DinerSelection[] = [...diners]
+    .sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+    .map(dinerFromRow);
+
+  return {
+    inviteId: row.invite_id,
+    status: row.status,
+    hostProfileId: row.host_profile_id,
+    dateTime: row.date_time,
+    filters: { ...DEFAULT_FILTERS, ...((row.filters || {}) as Partial<DiningFilters>) },
+    selectedDiners,
+    consensus: (row.consensus as unknown as ConsensusPolicy | null) ?? DEFAULT_CONSENSUS,
+    votingMode: row.voting_mode as VotingMode,
+    approvalBudget: row.approval_budget,
+    timeBox: (row.time_box as unknown as TimeBox | null) ?? null,
+    joinsLocked: row.joins_locked,
+    votingResetAt: row.voting_reset_at ? toTimestamp(row.voting_reset_at) : null,
+    deck: (row.deck as unknown as PartyDeck | null) ?? null,
+    deckOrder: row.deck_order ?? undefined,
+    deckAdjustments: (row.deck_adjustments as unknown as DeckAdjustment[] | null) ?? undefined,
+    votes: votesByRestaurant,
+    seenRestaurantIds: row.seen_restaurant_ids,
+    matchedRestaurantId: row.matched_restaurant_id,
+    matchedAt: row.matched_at ? toTimestamp(row.matched_at) : null,
+    currentRestaurantIndex: row.current_restaurant_index,
+    currentInPersonDinerIndex: row.current_in_person_diner_index,
+    inPersonDinerStartIndex: row.in_person_diner_start_index,
+    createdAt: toTimestamp(row.created_at),
+    updatedAt: toTimestamp(row.updated_at),
+  };
+}
+
+/**
+ * The shared columns of a party row (what pushPartyChanges upserts)
+ */
+export function partyToRow(party: PartyState): PartyInsert {
+  return {
+    invite_id: party.inviteId,
+    status: party.status,
+    host_profile_id: party.hostProfileId,
+    date_time: party.dateTime,
+    filters: party.filters as unknown as Json,
+    joins_locked: party.joinsLocked,
+    consensus: party.consensus as unknown as Json,
+    voting_mode: party.votingMode,
+    approval_budget: party.approvalBudget,
+    time_box: party.timeBox as unknown as Json,
+    voting_reset_at: party.votingResetAt !== null ? toIso(party.votingResetAt) : null,
+    deck: party.deck as unknown as Json,
+    deck_order: party.deckOrder ?? null,
+    deck_adjustments: (party.deckAdjustments ?? null) as unknown as Json,
+  };
+}
+
+// ============================================================================
+// Diners
+// ============================================================================
+
+export function dinerFromRow(row: PartyDinerRow): DinerSelection {
+  return {
+    profileId: row.profile_id,
+    mode: row.mode,
+    weight: row.weight !== 1 ? row.weight : undefined,
+    honoree: row.honoree || undefined,
+    ranking: row.ranking ?? undefined,
+    approvalsDone: row.approvals_done || undefined,
+    reconsider: row.reconsider.length > 0 ? row.reconsider : undefined,
+  };
+}
+
+/**
+ * joined_at is left to the server, so diners keep the order they joined in
+ */
+export function dinerToRow(
+  diner: DinerSelection,
+  partyId: string
+): Omit<PartyDinerRow, 'id' | 'joined_at'> {
+  return {
+    party_id: partyId,
+    profile_id: diner.profileId,
+    mode: diner.mode,
+    weight: diner.weight ?? 1,
+    honoree: diner.honoree ?? false,
+    ranking: diner.ranking ?? null,
+    approvals_done: diner.approvalsDone ?? false,
+    reconsider: diner.reconsider ?? [],
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Google Places Mappers
+ *
+ * Convert Google Places API (New) results to our Restaurant type. Shared by
+ * the /api/places routes, so server-side only (photo URLs carry the API key).
+ *
+ * Search results only have the basics; Place Details results also fill in
+ * structured hours, the editorial summary, reviews and attributes.
+ */
+
+import {
+  Restaurant,
+  CuisineType,
+  PriceLevel,
+  OpeningHours,
+  OpeningTime,
+  RestaurantReview,
+  RestaurantAttributes,
+} from '@/types';
+import { calculateDistanceMiles } from '@/utils/helpers';
+
+const GOOGLE_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
+
+// Review snippets kept per place
+const MAX_REVIEWS = 3;
+
+// Map Google place types to our cuisine types
+const TYPE_TO_CUISINE: Record<string, CuisineType> = {
+  american_restaurant: 'american',
+  italian_restaurant: 'italian',
+  mexican_restaurant: 'mexican',
+  chinese_restaurant: 'chinese',
+  japanese_restaurant: 'japanese',
+  thai_restaurant: 'thai',
+  indian_restaurant: 'indian',
+  mediterranean_restaurant: 'mediterranean',
+  french_restaurant: 'french',
+  korean_restaurant: 'korean',
+  vietnamese_restaurant: 'vietnamese',
+  greek_restaurant: 'greek',
+  barbecue_restaurant: 'bbq',
+  seafood_restaurant: 'seafood',
+  pizza_restaurant: 'pizza',
+  hamburger_restaurant: 'burgers',
+  sushi_restaurant: 'sushi',
+  vegan_restaurant: 'vegan',
+  vegetarian_restaurant: 'vegan',
+  breakfast_restaurant: 'breakfast',
+  brunch_restaurant: 'breakfast',
+  cafe: 'breakfast',
+  bakery: 'dessert',
+  ice_cream_shop: 'dessert',
+  bar: 'bar',
+  wine_bar: 'bar',
+  pub: 'bar',
+  night_club: 'bar',
+};
+
+// Map Google price levels to our format
+function mapPriceLevel(priceLevel?: number): PriceLevel {
+  switch (priceLevel) {
+    case 1:
+      return '$';
+    case 2:
+      return '$$';
+    case 3:
+      return '$$$';
+    case 4:
+      return '$$$$';
+    default:
+      return '$$'; // Default to moderate
+  }
+}
+
+// Extract cuisines from Google place types
+function extractCuisines(types: string[]): CuisineType[] {
+  const cuisines: CuisineType[] = [];
+  for (const type of types) {
+    const cuisine = TYPE_TO_CUISINE[type];
+    if (cuisine && !cuisines.includes(cuisine)) {
+      cuisines.push(cuisine);
+    }
+  }
+  // Default to 'american' if no specific cuisine found
+  return cuisines.length > 0 ? cuisines : ['american'];
+}
+
+// Build photo URL from Google Places photo reference
+function buildPhotoUrl(photoName: string, maxWidth = 800): string {
+  return `https://places.googleapis.com/v1/${photoName}/media?maxWidthPx=${maxWidth}&key=${GOOGLE_API_KEY}`;
+}
+
+// Google's { day, hour, minute } point in the week
+type GoogleOpeningPoint = { day?: number; hour?: number; minute?: number };
+
+function mapOpeningTime(point: GoogleOpeningPoint): OpeningTime {
+  return { day: point.day ?? 0, hour: point.hour ?? 0, minute: point.minute ?? 0 };
+}
+
+// Structured weekly hours from regularOpeningHours
+function mapOpeningHours(hours: {
+  periods?: { open?: GoogleOpeningPoint; close?: GoogleOpeningPoint }[];
+  weekdayDescriptions?: string[];
+}): OpeningHours {
+  return {
+    periods: (hours.periods || [])
+      .filter((period) => period.open)
+      .map((period) => ({
+        open: mapOpeningTime(period.open!),
+        ...(period.close && { close: mapOpeningTime(period.close) }),
+      })),
+    weekdayDescriptions: hours.weekdayDescriptions || [],
+  };
+}
+
+function mapReviews(
+  reviews: {
+    rating?: number;
+    text?: { text?: string };
+    originalText?: { text?: string };
+    relativePublishTimeDescription?: string;
+    authorAttribution?: { displayName?: string };
+  }[]
+): RestaurantReview[] {
+  return reviews
+    .map((review) => ({
+      author: review.authorAttribution?.displayName || 'A Google user',
+      rating: review.rating ?? 0,
+      text: review.text?.text || review.originalText?.text || '',
+      relativeTime: review.relativePublishTimeDescription,
+    }))
+    .filter((review) => review.text)
+    .slice(0, MAX_REVIEWS);
+}
+
+// Attributes Google knows about; left out when the place didn't say
+function mapAttributes(place: Record<string, unknown>): RestaurantAttributes {
+  const accessibility = place.accessibilityOptions as
+    | { wheelchairAccessibleEntrance?: boolean }
+    | undefined;
+  const attributes: RestaurantAttributes = {
+    servesVegetarianFood: place.servesVegetarianFood as boolean | undefined,
+    outdoorSeating: place.outdoorSeating as boolean | undefined,
+    reservable: place.reservable as boolean | undefined,
+    takeout: place.takeout as boolean | undefined,
+    delivery: place.delivery as boolean | undefined,
+    dineIn: place.dineIn as boolean | undefined,
+    goodForGroups: place.goodForGroups as boolean | undefined,
+    servesCocktails: place.servesCocktails as boolean | undefined,
+    wheelchairAccessible: accessibility?.wheelchairAccessibleEntrance,
+  };
+
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Transform a Places (New) result to our Restaurant format. The distance is
+ * measured from lat/lng when given.
+ */
+export function placeToRestaurant(
+  place: Record<string, unknown>,
+  lat?: number,
+  lng?: number
+): Restaurant {
+  const location = place.location as { latitude: number; longitude: number };
+  const photos = (place.photos as Array<{ name: string }>) || [];
+  const displayName = place.displayName as { text: string };
+  const types = (place.types as string[]) || [];
+  const priceLevel = place.priceLevel as string | undefined;
+  const regularHours = place.regularOpeningHours as
+    | Parameters<typeof mapOpeningHours>[0]
+    | undefined;
+  const openingHours = (regularHours || place.currentOpeningHours) as
+    | { weekdayDescriptions?: string[] }
+    | undefined;
+  const editorialSummary = place.editorialSummary as { text?: string } | undefined;
+  const reviews = place.reviews as Parameters<typeof mapReviews>[0] | undefined;
+  const attributes = mapAttributes(place);
+
+  // Map Google's price level string to number
+  let priceLevelNum = 2;
+  if (priceLevel) {
+    const priceLevelMap: Record<string, number> = {
+      PRICE_LEVEL_FREE: 0,
+      PRICE_LEVEL_INEXPENSIVE: 1,
+      PRICE_LEVEL_MODERATE: 2,
+      PRICE_LEVEL_EXPENSIVE: 3,
+      PRICE_LEVEL_VERY_EXPENSIVE: 4,
+    };
+    priceLevelNum = priceLevelMap[priceLevel] ?? 2;
+  }
+
+  return {
+    id: place.id as string,
+    name: displayName?.text || 'Unknown Restaurant',
+    rating: (place.rating as number) || 4.0,
+    priceLevel: mapPriceLevel(priceLevelNum),
+    cuisines: extractCuisines(types),
+    address: (place.formattedAddress as string) || '',
+    lat: location?.latitude,
+    lng: location?.longitude,
+    photos: photos.slice(0, 5).map((p) => buildPhotoUrl(p.name)),
+    description: `${displayName?.text || 'Restaurant'} - ${extractCuisines(types).join(', ')}`,
+    familyFriendly: (place.goodForChildren as boolean) ?? true,
+    distanceMiles:
+      location && lat !== undefined && lng !== undefined
+        ? Math.round(calculateDistanceMiles(lat, lng, location.latitude, location.longitude) * 10) / 10
+        : 0,
+    phone: place.nationalPhoneNumber as string | undefined,
+    website: place.websiteUri as string | undefined,
+    hours: openingHours?.weekdayDescriptions?.join('\n'),
+    // Only in Place Details responses
+    ...(regularHours && { openingHours: mapOpeningHours(regularHours) }),
+    ...(editorialSummary?.text && { editorialSummary: editorialSummary.text }),
+    ...(reviews && { reviews: mapReviews(reviews) }),
+    ...(Object.keys(attributes).length > 0 && { attributes }),
+  } satisfies Restaurant;
+}
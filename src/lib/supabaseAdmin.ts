@@ -0,0 +1,42 @@
+/**
+ * Supabase Service-Role Client
+ *
+ * Server-only client for tables the public anon key must not write, like
+ * `places_cache`. It bypasses row level security, so SUPABASE_SERVICE_ROLE_KEY
+ * must never reach the browser: only import this from API routes and the
+ * services they use.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { Database } from './database.types';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+let adminClient: ReturnType<typeof createClient<Database>> | null = null;
+
+/**
+ * Check if the service-role client can be created
+ */
+export function isSupabaseAdminConfigured(): boolean {
+  return !!(supabaseUrl && serviceRoleKey);
+}
+
+/**
+ * The service-role client (created on first use)
+ */
+export function getSupabaseAdmin(): ReturnType<typeof createClient<Database>> {
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase service role is not configured');
+  }
+
+  if (!adminClient) {
+    adminClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+  }
+  return adminClient;
+}
@@ -119,6 +119,22 @@ export async function searchGooglePlaces(options: SearchOptions): Promise<Restau
   }
 }
 
+/**
+ * Full details for one place (hours, summary, reviews, attributes).
+ * Returns null if Google doesn't know the place.
+ */
+export async function getGooglePlaceDetails(placeId: string): Promise<Restaurant | null> {
+  const response = await fetch(`/api/places/${encodeURIComponent(placeId)}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.restaurant ?? null;
+}
+
 /**
  * Check if Google Places API is configured
  */
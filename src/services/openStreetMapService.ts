@@ -0,0 +1,339 @@
+/**
+ * OpenStreetMap Service
+ *
+ * Fetches restaurants from OpenStreetMap, so no paid API key is needed:
+ * - an Overpass API endpoint (NEXT_PUBLIC_OVERPASS_URL, the public
+ *   overpass-api.de instance by default), or
+ * - a local GeoJSON extract (NEXT_PUBLIC_OSM_EXTRACT_URL), e.g. made from an
+ *   .osm.pbf with `osmium tags-filter` + `osmium export -a type,id`
+ *
+ * Only amenity=restaurant, cafe and bar are used. OSM has no ratings,
+ * prices or photos, so those fall back to defaults (see osmToRestaurant).
+ */
+
+import { Restaurant, DiningFilters, CuisineType, PriceLevel, CUISINE_LABELS } from '@/types';
+import { getImagesForCuisine } from '@/data/mockRestaurants';
+import { calculateDistanceMiles } from '@/utils/helpers';
+
+interface SearchOptions {
+  lat: number;
+  lng: number;
+  filters: DiningFilters;
+}
+
+type OsmTags = Record<string, string | undefined>;
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number }; // Ways and relations, with `out center`
+  tags?: OsmTags;
+}
+
+interface GeoJsonFeature {
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: OsmTags | null;
+}
+
+const DEFAULT_OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const AMENITIES = ['restaurant', 'cafe', 'bar'];
+
+// Most results Overpass sends back for one search
+const MAX_RESULTS = 200;
+
+// No ratings in OSM: every place gets the same middling score
+const DEFAULT_RATING = 4.0;
+
+// OSM prices are rare and free-form, so assume moderate like the Places route does
+const DEFAULT_PRICE_LEVEL: PriceLevel = '$$';
+
+// Map OSM `cuisine` values to our cuisine types
+const OSM_CUISINES: Record<string, CuisineType> = {
+  american: 'american',
+  steak_house: 'american',
+  sandwich: 'american',
+  chicken: 'american',
+  wings: 'american',
+  diner: 'american',
+  italian: 'italian',
+  pasta: 'italian',
+  mexican: 'mexican',
+  'tex-mex': 'mexican',
+  tacos: 'mexican',
+  burrito: 'mexican',
+  chinese: 'chinese',
+  dim_sum: 'chinese',
+  japanese: 'japanese',
+  ramen: 'japanese',
+  thai: 'thai',
+  indian: 'indian',
+  mediterranean: 'mediterranean',
+  lebanese: 'mediterranean',
+  turkish: 'mediterranean',
+  kebab: 'mediterranean',
+  middle_eastern: 'mediterranean',
+  tapas: 'mediterranean',
+  french: 'french',
+  crepe: 'french',
+  korean: 'korean',
+  vietnamese: 'vietnamese',
+  greek: 'greek',
+  barbecue: 'bbq',
+  bbq: 'bbq',
+  seafood: 'seafood',
+  fish: 'seafood',
+  fish_and_chips: 'seafood',
+  pizza: 'pizza',
+  burger: 'burgers',
+  sushi: 'sushi',
+  vegan: 'vegan',
+  vegetarian: 'vegan',
+  breakfast: 'breakfast',
+  brunch: 'breakfast',
+  coffee_shop: 'breakfast',
+  bagel: 'breakfast',
+  dessert: 'dessert',
+  ice_cream: 'dessert',
+  cake: 'dessert',
+  donut: 'dessert',
+  frozen_yogurt: 'dessert',
+};
+
+// What to assume when a place has no (known) cuisine tag
+const AMENITY_CUISINE: Record<string, CuisineType> = {
+  restaurant: 'american',
+  cafe: 'breakfast',
+  bar: 'bar',
+};
+
+/**
+ * Cuisines from an OSM `cuisine` tag ("pizza;italian") plus diet tags
+ */
+function extractCuisines(tags: OsmTags): CuisineType[] {
+  const cuisines: CuisineType[] = [];
+  const add = (cuisine: CuisineType | undefined) => {
+    if (cuisine && !cuisines.includes(cuisine)) cuisines.push(cuisine);
+  };
+
+  (tags.cuisine || '')
+    .split(';')
+    .map((value) => value.trim().toLowerCase())
+    .forEach((value) => add(OSM_CUISINES[value]));
+
+  if (tags['diet:vegan'] === 'only' || tags['diet:vegetarian'] === 'only') add('vegan');
+  if (tags.amenity === 'bar') add('bar');
+
+  if (cuisines.length === 0) add(AMENITY_CUISINE[tags.amenity || 'restaurant']);
+  return cuisines;
+}
+
+function buildAddress(tags: OsmTags): string {
+  const street = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ');
+  return [street, tags['addr:city']].filter(Boolean).join(', ');
+}
+
+/**
+ * Map a tagged OSM place to our Restaurant format.
+ * Returns null for places without a name or outside the amenities we use.
+ */
+function osmToRestaurant(
+  id: string,
+  tags: OsmTags,
+  placeLat: number,
+  placeLng: number,
+  origin: { lat: number; lng: number }
+): Restaurant | null {
+  if (!tags.name || !AMENITIES.includes(tags.amenity || '')) return null;
+
+  const cuisines = extractCuisines(tags);
+
+  return {
+    id,
+    name: tags.name,
+    rating: DEFAULT_RATING,
+    priceLevel: DEFAULT_PRICE_LEVEL,
+    cuisines,
+    address: buildAddress(tags),
+    lat: placeLat,
+    lng: placeLng,
+    photos: getImagesForCuisine(cuisines),
+    description:
+      tags.description ||
+      `${cuisines.map((c) => CUISINE_LABELS[c]).join(', ')} ${tags.amenity}`,
+    familyFriendly: tags.amenity !== 'bar',
+    distanceMiles:
+      Math.round(calculateDistanceMiles(origin.lat, origin.lng, placeLat, placeLng) * 10) / 10,
+    phone: tags.phone || tags['contact:phone'],
+    website: tags.website || tags['contact:website'],
+    hours: tags.opening_hours,
+  };
+}
+
+/**
+ * Search an Overpass API endpoint for restaurants within the max distance
+ */
+export async function searchOverpass(
+  options: SearchOptions,
+  endpoint = process.env.NEXT_PUBLIC_OVERPASS_URL || DEFAULT_OVERPASS_URL
+): Promise<Restaurant[]> {
+  const { lat, lng, filters } = options;
+
+  // Convert miles to meters (1 mile = 1609.34 meters)
+  const radiusMeters = Math.round(filters.maxDistance * 1609.34);
+
+  const query = `
+    [out:json][timeout:25];
+    nwr["amenity"~"^(${AMENITIES.join('|')})$"]["name"](around:${radiusMeters},${lat},${lng});
+    out center tags ${MAX_RESULTS};
+  `;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `data=${encodeURIComponent(query)}`,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass error: ${response.status}`);
+  }
+
+  const data: { elements?: OverpassElement[] } = await response.json();
+
+  return (data.elements || []).flatMap((element) => {
+    const placeLat = element.lat ?? element.center?.lat;
+    const placeLng = element.lon ?? element.center?.lon;
+    if (placeLat === undefined || placeLng === undefined) return [];
+
+    const restaurant = osmToRestaurant(
+      `osm:${element.type}/${element.id}`,
+      element.tags || {},
+      placeLat,
+      placeLng,
+      { lat, lng }
+    );
+    return restaurant ? [restaurant] : [];
+  });
+}
+
+/**
+ * A representative point for a GeoJSON geometry: the point itself, or the
+ * average of the (first) outer ring or line for anything else
+ */
+function geometryPoint(geometry: GeoJsonFeature['geometry']): [number, number] | null {
+  if (!geometry) return null;
+
+  const coordinates = geometry.coordinates as
+    | number[]
+    | number[][]
+    | number[][][]
+    | number[][][][];
+  const ring =
+    geometry.type === 'Point'
+      ? [coordinates as number[]]
+      : geometry.type === 'LineString'
+        ? (coordinates as number[][])
+        : geometry.type === 'Polygon'
+          ? (coordinates as number[][][])[0]
+          : geometry.type === 'MultiPolygon'
+            ? (coordinates as number[][][][])[0]?.[0]
+            : null;
+  if (!ring || ring.length === 0) return null;
+
+  const lng = ring.reduce((sum, [x]) => sum + x, 0) / ring.length;
+  const lat = ring.reduce((sum, [, y]) => sum + y, 0) / ring.length;
+  return [lng, lat];
+}
+
+/**
+ * Restaurants in a GeoJSON extract. Features carry OSM tags as properties;
+ * ids come from `id` or `@type`/`@id`. Distances are measured from `origin`,
+ * or are 0 without one.
+ */
+async function readOsmExtract(
+  url: string,
+  origin?: { lat: number; lng: number }
+): Promise<Restaurant[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+
+  const data: { features?: GeoJsonFeature[] } = await response.json();
+
+  return (data.features || []).flatMap((feature, index) => {
+    const point = geometryPoint(feature.geometry);
+    const tags = feature.properties || {};
+    if (!point) return [];
+
+    const osmId =
+      tags['@type'] && tags['@id'] ? `${tags['@type']}/${tags['@id']}` : feature.id ?? index;
+    const restaurant = osmToRestaurant(
+      `osm:${osmId}`,
+      tags,
+      point[1],
+      point[0],
+      origin ?? { lat: point[1], lng: point[0] }
+    );
+    return restaurant ? [restaurant] : [];
+  });
+}
+
+/**
+ * Read restaurants within the max distance from a GeoJSON extract
+ */
+export async function searchOsmExtract(options: SearchOptions, url: string): Promise<Restaurant[]> {
+  const { lat, lng, filters } = options;
+
+  const restaurants = await readOsmExtract(url, { lat, lng });
+  return restaurants.filter((r) => r.distanceMiles <= filters.maxDistance);
+}
+
+/**
+ * Look up one place by restaurant id (`osm:node/123`): in the extract when
+ * one is given, from Overpass otherwise. Null if it isn't there (or the id
+ * isn't an OSM one). The distance is left at 0 - callers keep their own.
+ */
+export async function getOsmPlace(
+  restaurantId: string,
+  extractUrl?: string,
+  endpoint = process.env.NEXT_PUBLIC_OVERPASS_URL || DEFAULT_OVERPASS_URL
+): Promise<Restaurant | null> {
+  if (extractUrl) {
+    const restaurants = await readOsmExtract(extractUrl);
+    return restaurants.find((r) => r.id === restaurantId) ?? null;
+  }
+
+  const match = /^osm:(node|way|relation)\/(\d+)$/.exec(restaurantId);
+  if (!match) return null;
+
+  const query = `
+    [out:json][timeout:25];
+    ${match[1]}(${match[2]});
+    out center tags;
+  `;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: `data=${encodeURIComponent(query)}`,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Overpass error: ${response.status}`);
+  }
+
+  const data: { elements?: OverpassElement[] } = await response.json();
+  const element = data.elements?.[0];
+  const placeLat = element?.lat ?? element?.center?.lat;
+  const placeLng = element?.lon ?? element?.center?.lon;
+  if (!element || placeLat === undefined || placeLng === undefined) return null;
+
+  return osmToRestaurant(restaurantId, element.tags || {}, placeLat, placeLng, {
+    lat: placeLat,
+    lng: placeLng,
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * Party Repository
+ *
+ * Storage abstraction for party state. The party store only talks to a
+ * PartyRepository, so the backend can be swapped without touching store logic.
+ *
+ * Implementations:
+ * - localStorage: single device (other tabs are notified via `storage` events)
+ * - supabase: shared across devices with realtime updates
+ * - memory: in-process stand-in for tests and local runs
+ *
+ * The repository is picked once at startup from NEXT_PUBLIC_PARTY_STORAGE
+ * ('localStorage' | 'supabase' | 'memory'). Without it, Supabase is used when
+ * configured and LocalStorage otherwise.
+ */
+
+import {
+  PartyState,
+  Profile,
+  PendingVote,
+  DEFAULT_CONSENSUS,
+  DEFAULT_APPROVAL_BUDGET,
+} from '@/types';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import {
+  fetchParty,
+  pushPartyChanges,
+  pushVotes,
+  subscribeToParty,
+  deleteParty,
+} from './partySyncService';
+
+/**
+ * A party plus the profiles of the people in it
+ */
+export interface PartySnapshot {
+  party: PartyState;
+  profiles: Profile[];
+}
+
+export interface PartyRepository {
+  load: (inviteId: string) => Promise<PartySnapshot | null>;
+  save: (snapshot: PartySnapshot) => Promise<void>;
+  /**
+   * Record votes, keeping the latest per restaurant and diner.
+   * Rejects if the backend can't be reached so the votes stay queued.
+   */
+  saveVotes: (inviteId: string, votes: PendingVote[]) => Promise<void>;
+  /** Returns unsubscribe function */
+  subscribe: (inviteId: string, onChange: (snapshot: PartySnapshot) => void) => () => void;
+  delete: (inviteId: string) => Promise<void>;
+  /** Whether the backend declares matches itself (clients then only follow) */
+  detectsMatches: boolean;
+}
+
+export type PartyStorageKind = 'localStorage' | 'supabase' | 'memory';
+
+// Storage key prefix for parties
+const PARTY_STORAGE_KEY = 'swipe-to-dine-party-';
+
+// Retry delay for party changes that failed to sync
+const SAVE_RETRY_MS = 10_000;
+
+/**
+ * The shared deck order as this device should use it: cards it has already
+ * swiped keep their places, and the rest follow the shared order. Devices
+ * that haven't got past the re-ranking point end up with exactly the shared
+ * order; one that's ahead never repeats or skips a card.
+ */
+function alignDeckOrder(shared: string[] | undefined, local: PartyState): string[] | undefined {
+  // Nothing re-ranked yet (or not synced yet): keep what we have
+  if (!shared) return local.deckOrder;
+
+  const localOrder = local.deckOrder ?? local.deck?.restaurantIds ?? [];
+  const swiped = localOrder.slice(0, local.currentRestaurantIndex);
+  const aligned = swiped.every((id, index) => shared[index] === id)
+    ? shared
+    : [...swiped, ...shared.filter((id) => !swiped.includes(id))];
+
+  // Same order as before: keep the old array so the deck isn't rebuilt
+  return JSON.stringify(aligned) === JSON.stringify(local.deckOrder) ? local.deckOrder : aligned;
+}
+
+/**
+ * Merge a stored snapshot into the local party.
+ * Shared fields come from storage; swipe progress stays device-local.
+ */
+export function mergeRemoteParty(
+  local: PartyState | null,
+  remote: PartyState
+): PartyState {
+  if (!local || local.inviteId !== remote.inviteId) {
+    return remote;
+  }
+
+  // A restart or a new deck resets everyone's progress
+  const restarted =
+    remote.votingResetAt !== local.votingResetAt ||
+    remote.deck?.createdAt !== local.deck?.createdAt;
+  if (restarted) {
+    return remote;
+  }
+
+  return {
+    ...remote,
+    seenRestaurantIds: local.seenRestaurantIds,
+    deckOrder: alignDeckOrder(remote.deckOrder, local),
+    deckAdjustments: remote.deckAdjustments ?? local.deckAdjustments,
+    currentRestaurantIndex: local.currentRestaurantIndex,
+    currentInPersonDinerIndex: local.currentInPersonDinerIndex,
+    inPersonDinerStartIndex: local.inPersonDinerStartIndex,
+  };
+}
+
+/**
+ * Parse a stored party, filling in fields added since it was saved
+ */
+function parseStoredParty(json: string): PartyState {
+  return {
+    status: 'swiping',
+    deck: null,
+    consensus: DEFAULT_CONSENSUS,
+    votingMode: 'swipe',
+    approvalBudget: DEFAULT_APPROVAL_BUDGET,
+    timeBox: null,
+    joinsLocked: false,
+    votingResetAt: null,
+    ...JSON.parse(json),
+  } as PartyState;
+}
+
+/**
+ * LocalStorage repository - parties are stored under `swipe-to-dine-party-<inviteId>`
+ */
+export function createLocalStoragePartyRepository(): PartyRepository {
+  const keyFor = (inviteId: string) => `${PARTY_STORAGE_KEY}${inviteId}`;
+
+  return {
+    load: async (inviteId) => {
+      if (typeof window === 'undefined') return null;
+
+      const stored = localStorage.getItem(keyFor(inviteId));
+      if (!stored) return null;
+      return { party: parseStoredParty(stored), profiles: [] };
+    },
+
+    save: async ({ party }) => {
+      if (typeof window === 'undefined') return;
+      localStorage.setItem(keyFor(party.inviteId), JSON.stringify(party));
+    },
+
+    // Votes are already stored with the party
+    saveVotes: async () => {},
+
+    subscribe: (inviteId, onChange) => {
+      if (typeof window === 'undefined') return () => {};
+
+      // Only fires for writes from other tabs
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== keyFor(inviteId) || !event.newValue) return;
+        onChange({ party: parseStoredParty(event.newValue), profiles: [] });
+      };
+
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+
+    delete: async (inviteId) => {
+      if (typeof window === 'undefined') return;
+      localStorage.removeItem(keyFor(inviteId));
+    },
+
+    detectsMatches: false,
+  };
+}
+
+/**
+ * Supabase repository - see partySyncService for the table mapping.
+ * A save that fails is retried (newest state first) until one lands.
+ */
+export function createSupabasePartyRepository(): PartyRepository {
+  // Newest save per party that the server hasn't confirmed yet
+  const unsynced = new Map<string, PartySnapshot>();
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const push = async (snapshot: PartySnapshot): Promise<void> => {
+    const { inviteId } = snapshot.party;
+    unsynced.set(inviteId, snapshot);
+    clearTimeout(retryTimers.get(inviteId));
+    retryTimers.delete(inviteId);
+
+    try {
+      await pushPartyChanges(snapshot.party, snapshot.profiles);
+      if (unsynced.get(inviteId) === snapshot) {
+        unsynced.delete(inviteId);
+      }
+    } catch (error) {
+      // Each push is diffed against what the server has, so resending the
+      // newest state also carries this one's changes
+      if (unsynced.get(inviteId) === snapshot) {
+        retryTimers.set(
+          inviteId,
+          setTimeout(() => {
+            push(snapshot).catch((retryError) => {
+              console.error('Failed to save party:', retryError);
+            });
+          }, SAVE_RETRY_MS)
+        );
+      }
+      throw error;
+    }
+  };
+
+  return {
+    load: fetchParty,
+
+    save: push,
+
+    saveVotes: (inviteId, votes) => pushVotes(inviteId, votes),
+
+    subscribe: subscribeToParty,
+
+    delete: async (inviteId) => {
+      unsynced.delete(inviteId);
+      clearTimeout(retryTimers.get(inviteId));
+      retryTimers.delete(inviteId);
+      await deleteParty(inviteId);
+    },
+
+    detectsMatches: true,
+  };
+}
+
+/**
+ * In-memory repository - snapshots are copied in and out so callers can't
+ * mutate stored state, and subscribers are notified on every save
+ */
+export function createInMemoryPartyRepository(
+  initial: PartySnapshot[] = []
+): PartyRepository {
+  const copy = (snapshot: PartySnapshot): PartySnapshot =>
+    JSON.parse(JSON.stringify(snapshot));
+
+  const snapshots = new Map<string, PartySnapshot>(
+    initial.map((s) => [s.party.inviteId, copy(s)])
+  );
+  const listeners = new Map<string, Set<(snapshot: PartySnapshot) => void>>();
+
+  return {
+    load: async (inviteId) => {
+      const snapshot = snapshots.get(inviteId);
+      return snapshot ? copy(snapshot) : null;
+    },
+
+    save: async (snapshot) => {
+      const { inviteId } = snapshot.party;
+      snapshots.set(inviteId, copy(snapshot));
+      listeners.get(inviteId)?.forEach((listener) => listener(copy(snapshot)));
+    },
+
+    saveVotes: async () => {},
+
+    subscribe: (inviteId, onChange) => {
+      const set = listeners.get(inviteId) || new Set();
+      set.add(onChange);
+      listeners.set(inviteId, set);
+      return () => {
+        set.delete(onChange);
+      };
+    },
+
+    delete: async (inviteId) => {
+      snapshots.delete(inviteId);
+    },
+
+    detectsMatches: false,
+  };
+}
+
+/**
+ * Create the repository for a storage kind (defaults to the environment)
+ */
+export function createPartyRepository(
+  kind = process.env.NEXT_PUBLIC_PARTY_STORAGE as PartyStorageKind | undefined
+): PartyRepository {
+  switch (kind) {
+    case 'memory':
+      return createInMemoryPartyRepository();
+    case 'supabase':
+      return createSupabasePartyRepository();
+    case 'localStorage':
+      return createLocalStoragePartyRepository();
+    default:
+      return isSupabaseConfigured()
+        ? createSupabasePartyRepository()
+        : createLocalStoragePartyRepository();
+  }
+}
+
+let activeRepository: PartyRepository | null = null;
+
+/**
+ * Get the repository selected at startup
+ */
+export function getPartyRepository(): PartyRepository {
+  if (!activeRepository) {
+    activeRepository = createPartyRepository();
+  }
+  return activeRepository;
+}
+
+/**
+ * Replace the active repository (e.g. with an in-memory one in tests)
+ */
+export function setPartyRepository(repository: PartyRepository): void {
+  activeRepository = repository;
+}
@@ -0,0 +1,383 @@
+/**
+ * Party Sync Service
+ *
+ * Persists party state to Supabase (`parties`, `party_diners`, `party_votes`)
+ * and subscribes to Supabase Realtime so every device sees the same party.
+ *
+ * Matches are declared by the database (see the server_match_detection
+ * migration): a trigger on `party_votes` sets `parties.matched_restaurant_id`
+ * exactly once, so clients never write it directly.
+ *
+ * Votes aren't part of the party diff - they're sent with the time they were
+ * cast through `merge_party_votes` (see pushVotes), so votes queued offline
+ * can be replayed with last-writer-wins. The diff only deletes cleared votes.
+ *
+ * Used by the Supabase PartyRepository (see partyRepository).
+ */
+
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import {
+  partyFromRows,
+  partyToRow,
+  dinerToRow,
+  profileFromRow,
+  profileToRow,
+} from '@/lib/databaseMappers';
+import { PartyState, Profile, PendingVote } from '@/types';
+import { debounce, getDinerWeight } from '@/utils/helpers';
+import type { PartySnapshot } from './partyRepository';
+
+// Invite ID -> parties.id (UUID) lookups, so we only resolve each party once
+const partyIdCache = new Map<string, string>();
+
+// Pending writes per invite ID - writes are chained so diffs land in order
+// (entries never reject, so a failed write doesn't block later ones)
+const writeQueues = new Map<string, Promise<void>>();
+
+// Last party state the server is known to have, per invite ID. Saves are
+// diffed against it when they run, so changes from a failed write are sent
+// again with the next one instead of being lost.
+const confirmedParties = new Map<string, PartyState>();
+
+// Profile ID -> updatedAt of the copy the server has, so edits made after
+// joining are pushed with the next save
+const confirmedProfiles = new Map<string, number>();
+
+// Delay before looking for a party row again when subscribing before it exists
+const SUBSCRIBE_RETRY_MS = 2000;
+
+async function resolvePartyId(inviteId: string): Promise<string | null> {
+  const cached = partyIdCache.get(inviteId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('parties')
+    .select('id')
+    .eq('invite_id', inviteId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  partyIdCache.set(inviteId, data.id);
+  return data.id;
+}
+
+/**
+ * Fetch a party and its diners, votes and diner profiles
+ * (remote devices won't have the other diners' profiles locally)
+ */
+export async function fetchParty(inviteId: string): Promise<PartySnapshot | null> {
+  const { data: partyRow, error: partyError } = await supabase
+    .from('parties')
+    .select('*')
+    .eq('invite_id', inviteId)
+    .maybeSingle();
+
+  if (partyError) throw partyError;
+  if (!partyRow) return null;
+
+  partyIdCache.set(inviteId, partyRow.id);
+
+  const [dinersResult, votesResult] = await Promise.all([
+    supabase.from('party_diners').select('*').eq('party_id', partyRow.id),
+    supabase.from('party_votes').select('*').eq('party_id', partyRow.id),
+  ]);
+
+  if (dinersResult.error) throw dinersResult.error;
+  if (votesResult.error) throw votesResult.error;
+
+  const diners = dinersResult.data || [];
+  const profileIds = diners.map((d) => d.profile_id);
+  if (partyRow.host_profile_id && !profileIds.includes(partyRow.host_profile_id)) {
+    profileIds.push(partyRow.host_profile_id);
+  }
+
+  let profiles: Profile[] = [];
+  if (profileIds.length > 0) {
+    const { data: profileRows, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('id', profileIds);
+
+    if (profileError) throw profileError;
+    profiles = (profileRows || []).map(profileFromRow);
+    profiles.forEach((p) => confirmedProfiles.set(p.id, p.updatedAt));
+  }
+
+  // Swipe position columns are never written, so each device starts from
+  // the defaults and keeps its own progress (see mergeRemoteParty)
+  const party = partyFromRows(partyRow, diners, votesResult.data || []);
+  confirmedParties.set(inviteId, party);
+
+  return { party, profiles };
+}
+
+async function writePartyChanges(
+  previous: PartyState | null,
+  next: PartyState,
+  profiles: Profile[]
+): Promise<void> {
+  const prevDiners = previous?.selectedDiners || [];
+
+  // Diners that were added or had their mode, weight, honoree flag or ballots changed
+  const changedDiners = next.selectedDiners.filter((d) => {
+    const prev = prevDiners.find((p) => p.profileId === d.profileId);
+    return (
+      !prev ||
+      prev.mode !== d.mode ||
+      getDinerWeight(prev) !== getDinerWeight(d) ||
+      !!prev.honoree !== !!d.honoree ||
+      JSON.stringify(prev.ranking) !== JSON.stringify(d.ranking) ||
+      !!prev.approvalsDone !== !!d.approvalsDone ||
+      JSON.stringify(prev.reconsider) !== JSON.stringify(d.reconsider)
+    );
+  });
+  const removedDinerIds = prevDiners
+    .filter((p) => !next.selectedDiners.some((d) => d.profileId === p.profileId))
+    .map((p) => p.profileId);
+
+  // Profiles must exist before anything can reference them, and edits
+  // made since the server last saw a profile go up too
+  const profileIds = changedDiners.map((d) => d.profileId);
+  if (next.hostProfileId && next.hostProfileId !== previous?.hostProfileId) {
+    profileIds.push(next.hostProfileId);
+  }
+  const changedProfiles = profiles.filter(
+    (p) => profileIds.includes(p.id) || p.updatedAt > (confirmedProfiles.get(p.id) ?? 0)
+  );
+
+  if (changedProfiles.length > 0) {
+    const { error } = await supabase.from('profiles').upsert(changedProfiles.map(profileToRow));
+    if (error) throw error;
+    changedProfiles.forEach((p) => confirmedProfiles.set(p.id, p.updatedAt));
+  }
+
+  // Party row
+  const partyFieldsChanged =
+    !previous ||
+    previous.status !== next.status ||
+    previous.hostProfileId !== next.hostProfileId ||
+    previous.dateTime !== next.dateTime ||
+    previous.joinsLocked !== next.joinsLocked ||
+    JSON.stringify(previous.consensus) !== JSON.stringify(next.consensus) ||
+    previous.votingMode !== next.votingMode ||
+    previous.approvalBudget !== next.approvalBudget ||
+    JSON.stringify(previous.timeBox) !== JSON.stringify(next.timeBox) ||
+    previous.votingResetAt !== next.votingResetAt ||
+    JSON.stringify(previous.filters) !== JSON.stringify(next.filters) ||
+    // A deck is never edited in place, only replaced (or re-ranked)
+    previous.deck?.createdAt !== next.deck?.createdAt ||
+    JSON.stringify(previous.deckOrder) !== JSON.stringify(next.deckOrder);
+
+  let partyId = partyIdCache.get(next.inviteId) || null;
+
+  if (partyFieldsChanged || !partyId) {
+    const { data, error } = await supabase
+      .from('parties')
+      .upsert(partyToRow(next), { onConflict: 'invite_id' })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    partyId = data.id;
+    partyIdCache.set(next.inviteId, partyId);
+  }
+
+  // Diners
+  if (changedDiners.length > 0) {
+    const { error } = await supabase.from('party_diners').upsert(
+      changedDiners.map((d) => dinerToRow(d, partyId)),
+      { onConflict: 'party_id,profile_id' }
+    );
+    if (error) throw error;
+  }
+
+  if (removedDinerIds.length > 0) {
+    const { error } = await supabase
+      .from('party_diners')
+      .delete()
+      .eq('party_id', partyId)
+      .in('profile_id', removedDinerIds);
+    if (error) throw error;
+  }
+
+  // Cleared votes (new and changed votes go through pushVotes)
+  const prevVotes = previous?.votes || {};
+
+  for (const restaurantId of Object.keys(prevVotes)) {
+    const after = next.votes[restaurantId] || {};
+    const clearedDinerIds = Object.keys(prevVotes[restaurantId]).filter(
+      (dinerId) => !after[dinerId]
+    );
+
+    if (clearedDinerIds.length > 0) {
+      const { error } = await supabase
+        .from('party_votes')
+        .delete()
+        .eq('party_id', partyId)
+        .eq('restaurant_id', restaurantId)
+        .in('profile_id', clearedDinerIds);
+      if (error) throw error;
+    }
+  }
+
+  // Manual picks only claim the match if the server hasn't declared one;
+  // the resulting match comes back through the realtime subscription
+  if (next.matchedRestaurantId && !previous?.matchedRestaurantId) {
+    const { error } = await supabase.rpc('claim_party_match', {
+      p_invite_id: next.inviteId,
+      p_restaurant_id: next.matchedRestaurantId,
+    });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Push a party to Supabase as the difference from what the server last
+ * confirmed. Writes are queued per party. Rejects on failure (the server
+ * copy is then unchanged, so pushing a later state resends these changes).
+ */
+export function pushPartyChanges(next: PartyState, profiles: Profile[]): Promise<void> {
+  const { inviteId } = next;
+  const pending = writeQueues.get(inviteId) || Promise.resolve();
+  const write = pending.then(async () => {
+    await writePartyChanges(confirmedParties.get(inviteId) || null, next, profiles);
+    confirmedParties.set(inviteId, next);
+  });
+
+  writeQueues.set(inviteId, write.catch(() => {}));
+  return write;
+}
+
+/**
+ * Merge votes into a party, keeping the latest vote per restaurant and diner.
+ * Unlike pushPartyChanges this rejects on failure, so callers can retry.
+ */
+export async function pushVotes(inviteId: string, votes: PendingVote[]): Promise<void> {
+  // The party and its diners must exist before their votes
+  await writeQueues.get(inviteId);
+
+  const { error } = await supabase.rpc('merge_party_votes', {
+    p_invite_id: inviteId,
+    p_votes: votes.map((v) => ({
+      profile_id: v.dinerId,
+      restaurant_id: v.restaurantId,
+      vote: v.status,
+      voted_at: new Date(v.votedAt).toISOString(),
+    })),
+  });
+  if (error) throw error;
+}
+
+/**
+ * Subscribe to realtime changes for a party.
+ * Any change to the party, its diners or votes refetches the full snapshot,
+ * and so does (re)joining the channel, coming back online or the page
+ * becoming visible again - changes made meanwhile never arrive as events.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToParty(
+  inviteId: string,
+  onChange: (snapshot: PartySnapshot) => void
+): () => void {
+  let channel: RealtimeChannel | null = null;
+  let cancelled = false;
+
+  const refresh = async () => {
+    // Let our own pending writes land first so we don't apply a stale snapshot
+    await writeQueues.get(inviteId);
+
+    try {
+      const snapshot = await fetchParty(inviteId);
+      if (snapshot && !cancelled) {
+        onChange(snapshot);
+      }
+    } catch (error) {
+      console.error('Failed to refresh party from Supabase:', error);
+    }
+  };
+  const debouncedRefresh = debounce(refresh, 150);
+
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = async () => {
+    // On the host's device the first save creates the party row
+    await writeQueues.get(inviteId);
+
+    let partyId: string | null = null;
+    try {
+      partyId = await resolvePartyId(inviteId);
+    } catch (error) {
+      console.error('Failed to subscribe to party:', error);
+    }
+    if (cancelled) return;
+
+    // Not created yet (or unreachable): look again shortly
+    if (!partyId) {
+      retryTimer = setTimeout(connect, SUBSCRIBE_RETRY_MS);
+      return;
+    }
+
+    channel = supabase
+      .channel(`party:${inviteId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'parties', filter: `id=eq.${partyId}` },
+        () => debouncedRefresh()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'party_diners', filter: `party_id=eq.${partyId}` },
+        () => debouncedRefresh()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'party_votes', filter: `party_id=eq.${partyId}` },
+        () => debouncedRefresh()
+      )
+      .subscribe((status) => {
+        // Catch up on anything that changed before we were listening
+        if (status === 'SUBSCRIBED') {
+          debouncedRefresh();
+        }
+      });
+  };
+  connect();
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      debouncedRefresh();
+    }
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', debouncedRefresh);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return () => {
+    cancelled = true;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', debouncedRefresh);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+    if (channel) {
+      supabase.removeChannel(channel);
+    }
+  };
+}
+
+/**
+ * Delete a party (diners and votes cascade)
+ */
+export async function deleteParty(inviteId: string): Promise<void> {
+  const { error } = await supabase.from('parties').delete().eq('invite_id', inviteId);
+  if (error) throw error;
+  partyIdCache.delete(inviteId);
+  confirmedParties.delete(inviteId);
+}
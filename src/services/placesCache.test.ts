@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createInMemoryPlacesCache, placesCacheKey } from './placesCache';
+import { mockRestaurants } from '@/data/mockRestaurants';
+
+const restaurants = mockRestaurants.slice(0, 2);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('placesCacheKey', () => {
+  it('ignores cuisine order and GPS wobble', () => {
+    const params = { lat: 40.71281, lng: -74.00601, radius: 8047, maxResults: 60 };
+    expect(placesCacheKey({ ...params, cuisineTypes: ['pizza', 'Sushi'] })).toBe(
+      placesCacheKey({ ...params, lat: 40.71279, cuisineTypes: ['sushi', 'pizza'] })
+    );
+  });
+});
+
+describe('createInMemoryPlacesCache', () => {
+  it('drops the least recently used entry once full', async () => {
+    const cache = createInMemoryPlacesCache(2);
+    await cache.set('a', restaurants);
+    await cache.set('b', restaurants);
+    await cache.get('a');
+    await cache.set('c', restaurants);
+
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('sweeps expired entries when writing', async () => {
+    vi.useFakeTimers();
+    const cache = createInMemoryPlacesCache(2);
+    await cache.set('kept', restaurants);
+    vi.stubEnv('PLACES_CACHE_TTL_SECONDS', '1');
+    await cache.set('expired', restaurants);
+
+    vi.advanceTimersByTime(2000);
+    await cache.set('new', restaurants);
+
+    // The expired entry made room, so the older live one stays
+    expect(await cache.get('kept')).not.toBeNull();
+    expect(await cache.get('new')).not.toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Places Search Cache
+ *
+ * Server-side cache for the /api/places/search route, so a host who searches
+ * the same area twice in a row (or a demo that replays the same party) gets
+ * the same restaurants without paying for another round of Google queries.
+ *
+ * Backends:
+ * - memory: per server process, lost on restart (default). Holds at most
+ *   MAX_MEMORY_ENTRIES searches, dropping the least recently used
+ * - file: JSON files under PLACES_CACHE_DIR (default .cache/places), shared
+ *   by every process on the machine and kept across restarts
+ * - supabase: the `places_cache` table, shared by every server. Read and
+ *   written with the service-role key (SUPABASE_SERVICE_ROLE_KEY), since
+ *   anyone with the anon key could otherwise plant restaurants in it
+ * - off: no caching
+ *
+ * The backend is picked once from PLACES_CACHE. Entries expire after
+ * PLACES_CACHE_TTL_SECONDS (default one hour).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Restaurant } from '@/types';
+import { Json } from '@/lib/database.types';
+import { getSupabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabaseAdmin';
+
+/**
+ * A cached search result and when it was stored (epoch ms)
+ */
+export interface CachedPlaces {
+  restaurants: Restaurant[];
+  storedAt: number;
+}
+
+export interface PlacesCache {
+  /** Null when nothing is cached for the key or the entry has expired */
+  get: (key: string) => Promise<CachedPlaces | null>;
+  set: (key: string, restaurants: Restaurant[]) => Promise<void>;
+}
+
+export type PlacesCacheKind = 'memory' | 'file' | 'supabase' | 'off';
+
+/**
+ * The search parameters that decide which restaurants come back
+ */
+export interface PlacesCacheKeyParams {
+  lat: number;
+  lng: number;
+  radius: number;
+  cuisineTypes: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  maxResults: number;
+}
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+const DEFAULT_CACHE_DIR = '.cache/places';
+
+// Most searches the memory backend keeps
+const MAX_MEMORY_ENTRIES = 500;
+
+// Decimal places kept from lat/lng: 3 is about 100m, so a host who moves
+// across the room (or whose GPS wobbles) still hits the cache
+const COORDINATE_PRECISION = 3;
+
+/**
+ * How long entries live, in ms
+ */
+function getTtlMs(): number {
+  const seconds = Number(process.env.PLACES_CACHE_TTL_SECONDS);
+  return (seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Cache key for a search: rounded location, radius, cuisine terms (in any
+ * order), price range and result limit
+ */
+export function placesCacheKey(params: PlacesCacheKeyParams): string {
+  const { lat, lng, radius, cuisineTypes, minPrice, maxPrice, maxResults } = params;
+
+  return [
+    `${Number(lat).toFixed(COORDINATE_PRECISION)},${Number(lng).toFixed(COORDINATE_PRECISION)}`,
+    `r${Math.round(radius)}`,
+    `c${[...cuisineTypes].map((terms) => terms.toLowerCase()).sort().join('|')}`,
+    `p${minPrice ?? ''}-${maxPrice ?? ''}`,
+    `n${maxResults}`,
+  ].join(':');
+}
+
+/**
+ * In-process Map in least recently used order. Expired entries are swept on
+ * every write, and the least recently used go once there are more than
+ * `maxEntries`.
+ */
+export function createInMemoryPlacesCache(maxEntries = MAX_MEMORY_ENTRIES): PlacesCache {
+  const entries = new Map<string, CachedPlaces & { expiresAt: number }>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+
+      // Re-inserted, so it's now the most recently used
+      entries.set(key, entry);
+      return { restaurants: entry.restaurants, storedAt: entry.storedAt };
+    },
+
+    set: async (key, restaurants) => {
+      const storedAt = Date.now();
+      for (const [storedKey, entry] of entries) {
+        if (entry.expiresAt <= storedAt) entries.delete(storedKey);
+      }
+
+      entries.delete(key);
+      entries.set(key, { restaurants, storedAt, expiresAt: storedAt + getTtlMs() });
+
+      // Map keys iterate oldest first
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * One JSON file per key, named by the key's hash
+ */
+export function createFilePlacesCache(
+  directory = process.env.PLACES_CACHE_DIR || DEFAULT_CACHE_DIR
+): PlacesCache {
+  const fileFor = (key: string) =>
+    path.join(directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    get: async (key) => {
+      try {
+        const entry: CachedPlaces & { key: string; expiresAt: number } = JSON.parse(
+          await fs.readFile(fileFor(key), 'utf8')
+        );
+        if (entry.key !== key || entry.expiresAt <= Date.now()) return null;
+        return { restaurants: entry.restaurants, storedAt: entry.storedAt };
+      } catch {
+        // Missing or unreadable: treat as a miss
+        return null;
+      }
+    },
+
+    set: async (key, restaurants) => {
+      const storedAt = Date.now();
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        fileFor(key),
+        JSON.stringify({ key, restaurants, storedAt, expiresAt: storedAt + getTtlMs() })
+      );
+    },
+  };
+}
+
+/**
+ * Rows in the `places_cache` table (see the places_cache migration)
+ */
+export function createSupabasePlacesCache(): PlacesCache {
+  return {
+    get: async (key) => {
+      const { data, error } = await getSupabaseAdmin()
+        .from('places_cache')
+        .select('restaurants, stored_at')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        restaurants: data.restaurants as unknown as Restaurant[],
+        storedAt: new Date(data.stored_at).getTime(),
+      };
+    },
+
+    set: async (key, restaurants) => {
+      const storedAt = Date.now();
+      const { error } = await getSupabaseAdmin().from('places_cache').upsert({
+        key,
+        restaurants: restaurants as unknown as Json,
+        stored_at: new Date(storedAt).toISOString(),
+        expires_at: new Date(storedAt + getTtlMs()).toISOString(),
+      });
+
+      if (error) throw error;
+    },
+  };
+}
+
+/**
+ * Create the cache for a backend kind, or null when caching is off
+ */
+export function createPlacesCache(
+  kind = (process.env.PLACES_CACHE || 'memory') as PlacesCacheKind
+): PlacesCache | null {
+  switch (kind) {
+    case 'off':
+      return null;
+    case 'file':
+      return createFilePlacesCache();
+    case 'supabase':
+      if (!isSupabaseAdminConfigured()) {
+        console.warn('PLACES_CACHE=supabase needs SUPABASE_SERVICE_ROLE_KEY, using memory');
+        return createInMemoryPlacesCache();
+      }
+      return createSupabasePlacesCache();
+    case 'memory':
+      return createInMemoryPlacesCache();
+    default:
+      console.warn(`Unknown PLACES_CACHE "${kind}", using memory`);
+      return createInMemoryPlacesCache();
+  }
+}
+
+let activeCache: PlacesCache | null | undefined;
+
+/**
+ * Get the cache for this server (created on first use)
+ */
+export function getPlacesCache(): PlacesCache | null {
+  if (activeCache === undefined) {
+    activeCache = createPlacesCache();
+  }
+  return activeCache;
+}
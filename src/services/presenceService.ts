@@ -0,0 +1,293 @@
+/**
+ * Presence Service
+ *
+ * Tracks who is online in a party and which card they're on. Presence is
+ * ephemeral - it's never stored with the party.
+ *
+ * Implementations follow the party storage kind (see partyRepository):
+ * - supabase: Supabase Realtime presence
+ * - localStorage: BroadcastChannel between tabs with heartbeats
+ * - memory: in-process stand-in for tests and local runs
+ *
+ * Each device (page load) announces the diners it votes as (one remote
+ * diner, or every pass-the-phone diner), and presence is reported per diner.
+ */
+
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { DinerPresence } from '@/types';
+import { generateId } from '@/utils/helpers';
+import type { PartyStorageKind } from './partyRepository';
+
+/**
+ * What a device announces about itself
+ */
+export interface DevicePresence {
+  dinerIds: string[];
+  cardIndex: number;
+  lastActiveAt: number;
+}
+
+export interface PresenceSession {
+  update: (presence: DevicePresence) => void;
+  leave: () => void;
+}
+
+export interface PresenceTracker {
+  join: (
+    inviteId: string,
+    onChange: (presence: Record<string, DinerPresence>) => void
+  ) => PresenceSession;
+}
+
+// Devices are considered gone after missing this many heartbeats
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const OFFLINE_AFTER_MS = HEARTBEAT_INTERVAL_MS * 3;
+
+/**
+ * Turn per-device presence into per-diner presence. Diners that went
+ * offline keep their last known card and activity time.
+ */
+function toDinerPresence(
+  devices: DevicePresence[],
+  lastKnown: Map<string, DinerPresence>
+): Record<string, DinerPresence> {
+  const online = new Set<string>();
+
+  for (const device of devices) {
+    for (const profileId of device.dinerIds) {
+      const previous = lastKnown.get(profileId);
+      online.add(profileId);
+
+      // The same diner on two devices counts as whichever was active last
+      if (!previous || !previous.online || device.lastActiveAt >= previous.lastActiveAt) {
+        lastKnown.set(profileId, {
+          profileId,
+          online: true,
+          cardIndex: device.cardIndex,
+          lastActiveAt: device.lastActiveAt,
+        });
+      }
+    }
+  }
+
+  const result: Record<string, DinerPresence> = {};
+  for (const [profileId, presence] of lastKnown) {
+    result[profileId] = { ...presence, online: online.has(profileId) };
+    lastKnown.set(profileId, result[profileId]);
+  }
+  return result;
+}
+
+// ============================================================================
+// Supabase
+// ============================================================================
+
+export function createSupabasePresenceTracker(): PresenceTracker {
+  return {
+    join: (inviteId, onChange) => {
+      const deviceId = generateId();
+      const lastKnown = new Map<string, DinerPresence>();
+      let current: DevicePresence | null = null;
+      let subscribed = false;
+
+      const channel: RealtimeChannel = supabase.channel(`presence:${inviteId}`, {
+        config: { presence: { key: deviceId } },
+      });
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<DevicePresence>();
+          // Each device tracks a single payload; take its latest
+          const devices = Object.values(state).map((entries) => entries[entries.length - 1]);
+          onChange(toDinerPresence(devices, lastKnown));
+        })
+        .subscribe((status) => {
+          if (status !== 'SUBSCRIBED') return;
+          subscribed = true;
+          if (current) {
+            channel.track(current).catch((error) => {
+              console.error('Failed to track presence:', error);
+            });
+          }
+        });
+
+      return {
+        update: (presence) => {
+          current = presence;
+          if (!subscribed) return;
+          channel.track(presence).catch((error) => {
+            console.error('Failed to track presence:', error);
+          });
+        },
+        leave: () => {
+          supabase.removeChannel(channel);
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Local stand-ins
+// ============================================================================
+
+type PresenceMessage =
+  | { type: 'hello'; deviceId: string }
+  | { type: 'state'; deviceId: string; presence: DevicePresence }
+  | { type: 'leave'; deviceId: string };
+
+interface MessageChannel {
+  post: (message: PresenceMessage) => void;
+  onMessage: (listener: (message: PresenceMessage) => void) => void;
+  close: () => void;
+}
+
+/**
+ * Presence over any message channel, with heartbeats so devices that
+ * vanish without saying goodbye go offline
+ */
+function createChannelPresenceTracker(
+  openChannel: (inviteId: string) => MessageChannel
+): PresenceTracker {
+  return {
+    join: (inviteId, onChange) => {
+      const deviceId = generateId();
+      const lastKnown = new Map<string, DinerPresence>();
+      const devices = new Map<string, { presence: DevicePresence; heardAt: number }>();
+      let current: DevicePresence | null = null;
+      const channel = openChannel(inviteId);
+
+      const emit = () => {
+        const now = Date.now();
+        for (const [id, device] of devices) {
+          if (id !== deviceId && now - device.heardAt > OFFLINE_AFTER_MS) {
+            devices.delete(id);
+          }
+        }
+        onChange(toDinerPresence([...devices.values()].map((d) => d.presence), lastKnown));
+      };
+
+      const announce = () => {
+        if (current) {
+          channel.post({ type: 'state', deviceId, presence: current });
+        }
+      };
+
+      channel.onMessage((message) => {
+        if (message.deviceId === deviceId) return;
+
+        switch (message.type) {
+          case 'hello':
+            announce();
+            break;
+          case 'state':
+            devices.set(message.deviceId, { presence: message.presence, heardAt: Date.now() });
+            emit();
+            break;
+          case 'leave':
+            devices.delete(message.deviceId);
+            emit();
+            break;
+        }
+      });
+
+      channel.post({ type: 'hello', deviceId });
+
+      const heartbeat = setInterval(() => {
+        announce();
+        emit();
+      }, HEARTBEAT_INTERVAL_MS);
+
+      return {
+        update: (presence) => {
+          current = presence;
+          devices.set(deviceId, { presence, heardAt: Date.now() });
+          announce();
+          emit();
+        },
+        leave: () => {
+          clearInterval(heartbeat);
+          channel.post({ type: 'leave', deviceId });
+          channel.close();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Tabs on this device, via BroadcastChannel
+ */
+export function createBroadcastPresenceTracker(): PresenceTracker {
+  return createChannelPresenceTracker((inviteId) => {
+    if (typeof BroadcastChannel === 'undefined') {
+      return { post: () => {}, onMessage: () => {}, close: () => {} };
+    }
+
+    const channel = new BroadcastChannel(`swipe-to-dine-presence-${inviteId}`);
+    return {
+      post: (message) => channel.postMessage(message),
+      onMessage: (listener) => {
+        channel.onmessage = (event: MessageEvent<PresenceMessage>) => listener(event.data);
+      },
+      close: () => channel.close(),
+    };
+  });
+}
+
+/**
+ * In-process presence - every session joined through the same tracker sees the others
+ */
+export function createInMemoryPresenceTracker(): PresenceTracker {
+  const listeners = new Map<string, Set<(message: PresenceMessage) => void>>();
+
+  return createChannelPresenceTracker((inviteId) => {
+    const set = listeners.get(inviteId) || new Set();
+    listeners.set(inviteId, set);
+    let own: ((message: PresenceMessage) => void) | null = null;
+
+    return {
+      post: (message) => set.forEach((listener) => listener(message)),
+      onMessage: (listener) => {
+        own = listener;
+        set.add(listener);
+      },
+      close: () => {
+        if (own) set.delete(own);
+      },
+    };
+  });
+}
+
+/**
+ * Create the tracker matching a party storage kind (defaults to the environment)
+ */
+export function createPresenceTracker(
+  kind = process.env.NEXT_PUBLIC_PARTY_STORAGE as PartyStorageKind | undefined
+): PresenceTracker {
+  switch (kind) {
+    case 'memory':
+      return createInMemoryPresenceTracker();
+    case 'supabase':
+      return createSupabasePresenceTracker();
+    case 'localStorage':
+      return createBroadcastPresenceTracker();
+    default:
+      return isSupabaseConfigured()
+        ? createSupabasePresenceTracker()
+        : createBroadcastPresenceTracker();
+  }
+}
+
+let activeTracker: PresenceTracker | null = null;
+
+/**
+ * Get the tracker selected at startup
+ */
+export function getPresenceTracker(): PresenceTracker {
+  if (!activeTracker) {
+    activeTracker = createPresenceTracker();
+  }
+  return activeTracker;
+}
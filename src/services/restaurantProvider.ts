@@ -0,0 +1,249 @@
+/**
+ * Restaurant Providers
+ *
+ * Where restaurant data comes from. Restaurant search only talks to
+ * RestaurantProviders, so new sources (Yelp Fusion, Foursquare, ...) can be
+ * added without touching ranking or the deck.
+ *
+ * Built-in providers:
+ * - google: Google Places through our /api/places proxy (needs coordinates;
+ *   details come from Place Details)
+ * - osm: OpenStreetMap, from Overpass or a local GeoJSON extract (needs
+ *   coordinates, no API key; details are the place looked up again)
+ * - static: a JSON file of restaurants (NEXT_PUBLIC_RESTAURANTS_JSON_URL,
+ *   default /restaurants.json)
+ * - mock: the bundled sample restaurants
+ *
+ * NEXT_PUBLIC_RESTAURANT_PROVIDERS lists providers to try in order, e.g.
+ * 'static,mock'. The first one that returns restaurants wins. Without it,
+ * Google is tried first and the sample data is the fallback.
+ *
+ * Every restaurant a provider returns records where it came from in
+ * `restaurant.source`. Details and photos are looked up at the source, never
+ * from an earlier search: devices that joined a party only have the shared
+ * deck.
+ */
+
+import { Restaurant, DiningFilters } from '@/types';
+import { mockRestaurants } from '@/data/mockRestaurants';
+import { calculateDistanceMiles, matchesFilters } from '@/utils/helpers';
+import { searchGooglePlaces, getGooglePlaceDetails } from './googlePlacesService';
+import { searchOverpass, searchOsmExtract, getOsmPlace } from './openStreetMapService';
+
+export interface RestaurantSearchOptions {
+  filters: DiningFilters;
+  lat?: number;
+  lng?: number;
+}
+
+export interface RestaurantProvider {
+  /** Recorded as `source.provider` on every restaurant it returns */
+  id: string;
+  /** Empty when it has nothing for these options; rejects when it can't be reached */
+  search: (options: RestaurantSearchOptions) => Promise<Restaurant[]>;
+  /** Full details for one of this provider's restaurants, or null if unknown */
+  getDetails: (restaurantId: string) => Promise<Restaurant | null>;
+  /** Photo URLs for one of this provider's restaurants (empty if unknown) */
+  getPhotos: (restaurantId: string) => Promise<string[]>;
+}
+
+type RestaurantProviderFactory = () => RestaurantProvider;
+
+const DEFAULT_PROVIDER_IDS = ['google', 'mock'];
+
+/**
+ * Record provenance on restaurants fresh from a provider
+ */
+export function withSource(
+  restaurants: Restaurant[],
+  provider: string,
+  attribution: string
+): Restaurant[] {
+  const fetchedAt = Date.now();
+  return restaurants.map((restaurant) => ({
+    ...restaurant,
+    source: { provider, externalId: restaurant.id, attribution, fetchedAt },
+  }));
+}
+
+/**
+ * getPhotos for providers whose details carry the photos
+ */
+function photosFromDetails(getDetails: RestaurantProvider['getDetails']) {
+  return async (restaurantId: string) => (await getDetails(restaurantId))?.photos ?? [];
+}
+
+/**
+ * Google Places, through the /api/places proxy that holds the API key.
+ * Photos come from Place Details (up to five per place).
+ */
+export function createGooglePlacesProvider(): RestaurantProvider {
+  const getDetails: RestaurantProvider['getDetails'] = async (restaurantId) => {
+    const restaurant = await getGooglePlaceDetails(restaurantId);
+    return restaurant ? withSource([restaurant], 'google', 'Google Places')[0] : null;
+  };
+
+  return {
+    id: 'google',
+
+    search: async ({ filters, lat, lng }) => {
+      // Nearby search needs to know where "nearby" is
+      if (lat === undefined || lng === undefined) return [];
+
+      const restaurants = await searchGooglePlaces({ lat, lng, filters });
+      return withSource(restaurants, 'google', 'Google Places');
+    },
+
+    getDetails,
+    getPhotos: photosFromDetails(getDetails),
+  };
+}
+
+/**
+ * OpenStreetMap, from a local GeoJSON extract when one is configured
+ * (NEXT_PUBLIC_OSM_EXTRACT_URL) and an Overpass endpoint otherwise
+ */
+export function createOpenStreetMapProvider(
+  extractUrl = process.env.NEXT_PUBLIC_OSM_EXTRACT_URL
+): RestaurantProvider {
+  const attribution = '© OpenStreetMap contributors';
+
+  const getDetails: RestaurantProvider['getDetails'] = async (restaurantId) => {
+    const restaurant = await getOsmPlace(restaurantId, extractUrl);
+    return restaurant ? withSource([restaurant], 'osm', attribution)[0] : null;
+  };
+
+  return {
+    id: 'osm',
+
+    search: async ({ filters, lat, lng }) => {
+      if (lat === undefined || lng === undefined) return [];
+
+      const restaurants = extractUrl
+        ? await searchOsmExtract({ lat, lng, filters }, extractUrl)
+        : await searchOverpass({ lat, lng, filters });
+      return withSource(restaurants, 'osm', attribution).filter((r) =>
+        matchesFilters(r, filters)
+      );
+    },
+
+    getDetails,
+    // OSM has no photos: these are the stock ones for the cuisine
+    getPhotos: photosFromDetails(getDetails),
+  };
+}
+
+/**
+ * A static JSON file: an array of restaurants. `distanceMiles` can be left
+ * out when `lat`/`lng` are given, and is then measured from the diner.
+ */
+export function createStaticJsonProvider(
+  url = process.env.NEXT_PUBLIC_RESTAURANTS_JSON_URL || '/restaurants.json'
+): RestaurantProvider {
+  const load = async (lat?: number, lng?: number): Promise<Restaurant[]> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status}`);
+    }
+
+    const entries: (Omit<Restaurant, 'distanceMiles'> & { distanceMiles?: number })[] =
+      await response.json();
+    const restaurants: Restaurant[] = entries.map((entry) => ({
+      ...entry,
+      distanceMiles:
+        lat !== undefined && lng !== undefined && entry.lat !== undefined && entry.lng !== undefined
+          ? Math.round(calculateDistanceMiles(lat, lng, entry.lat, entry.lng) * 10) / 10
+          : entry.distanceMiles ?? 0,
+    }));
+    return withSource(restaurants, 'static', 'Restaurant list');
+  };
+
+  const getDetails: RestaurantProvider['getDetails'] = async (restaurantId) =>
+    (await load()).find((r) => r.id === restaurantId) ?? null;
+
+  return {
+    id: 'static',
+
+    search: async ({ filters, lat, lng }) =>
+      (await load(lat, lng)).filter((r) => matchesFilters(r, filters)),
+
+    getDetails,
+    getPhotos: photosFromDetails(getDetails),
+  };
+}
+
+/**
+ * The bundled sample restaurants
+ */
+export function createMockProvider(): RestaurantProvider {
+  return {
+    id: 'mock',
+
+    search: async ({ filters }) =>
+      withSource(
+        mockRestaurants.filter((r) => matchesFilters(r, filters)),
+        'mock',
+        'Sample data'
+      ),
+
+    getDetails: async (restaurantId) => {
+      const restaurant = mockRestaurants.find((r) => r.id === restaurantId);
+      return restaurant ? withSource([restaurant], 'mock', 'Sample data')[0] : null;
+    },
+
+    getPhotos: async (restaurantId) =>
+      mockRestaurants.find((r) => r.id === restaurantId)?.photos ?? [],
+  };
+}
+
+const factories = new Map<string, RestaurantProviderFactory>([
+  ['google', createGooglePlacesProvider],
+  ['osm', () => createOpenStreetMapProvider()],
+  ['static', () => createStaticJsonProvider()],
+  ['mock', createMockProvider],
+]);
+
+const providers = new Map<string, RestaurantProvider>();
+
+/**
+ * Make a provider available under its id (replacing any with the same id)
+ */
+export function registerRestaurantProvider(id: string, factory: RestaurantProviderFactory): void {
+  factories.set(id, factory);
+  providers.delete(id);
+}
+
+/**
+ * Get a registered provider by id (created once, then reused)
+ */
+export function getRestaurantProvider(id: string): RestaurantProvider | null {
+  const cached = providers.get(id);
+  if (cached) return cached;
+
+  const factory = factories.get(id);
+  if (!factory) return null;
+
+  const provider = factory();
+  providers.set(id, provider);
+  return provider;
+}
+
+/**
+ * The providers to try, in order (defaults to the environment)
+ */
+export function getRestaurantProviders(
+  ids = process.env.NEXT_PUBLIC_RESTAURANT_PROVIDERS
+): RestaurantProvider[] {
+  const wanted = ids
+    ? ids.split(',').map((id) => id.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_IDS;
+
+  return wanted.flatMap((id) => {
+    const provider = getRestaurantProvider(id);
+    if (!provider) {
+      console.warn(`Unknown restaurant provider "${id}"`);
+      return [];
+    }
+    return [provider];
+  });
+}
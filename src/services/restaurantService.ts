@@ -2,18 +2,29 @@
  * Restaurant Service
  *
  * Handles restaurant search, filtering, and ranking.
- * Uses Google Places API when configured, falls back to mock data.
+ * Restaurants come from the configured providers (Google Places by default),
+ * falling back to mock data.
  */
 
-import { Restaurant, DiningFilters, Profile, CuisineType } from '@/types';
+import {
+  Restaurant,
+  DiningFilters,
+  Profile,
+  CuisineType,
+  DinerSelection,
+  DeckAdjustment,
+  VoteStatus,
+} from '@/types';
 import { mockRestaurants, getRestaurantById } from '@/data/mockRestaurants';
-import { searchGooglePlaces } from './googlePlacesService';
+import { getDinerWeight, matchesFilters } from '@/utils/helpers';
+import { getRestaurantProvider, getRestaurantProviders, withSource } from './restaurantProvider';
 
 interface SearchParams {
   filters: DiningFilters;
   userLat?: number;
   userLng?: number;
   profiles?: Profile[]; // For preference scoring
+  diners?: DinerSelection[]; // Weights and guest of honor for the profiles above
   useGooglePlaces?: boolean; // Try Google Places API first
 }
 
@@ -25,26 +36,22 @@ interface ScoredRestaurant {
 }
 
 /**
- * Async search that tries Google Places API first, falls back to mock data
+ * Async search that tries each restaurant provider in turn (see
+ * restaurantProvider), falling back to mock data
  */
 export async function searchRestaurantsAsync(params: SearchParams): Promise<Restaurant[]> {
-  const { filters, userLat, userLng, profiles = [] } = params;
+  const { filters, userLat, userLng, profiles = [], diners = [] } = params;
 
-  // Try Google Places API if we have coordinates
-  if (userLat && userLng) {
+  for (const provider of getRestaurantProviders()) {
     try {
-      const restaurants = await searchGooglePlaces({
-        lat: userLat,
-        lng: userLng,
-        filters,
-      });
+      const restaurants = await provider.search({ filters, lat: userLat, lng: userLng });
 
       if (restaurants.length > 0) {
         // Apply preference scoring and sort
-        return rankRestaurants(restaurants, filters, profiles);
+        return rankRestaurants(restaurants, filters, profiles, diners);
       }
     } catch (error) {
-      console.warn('Google Places search failed, using mock data:', error);
+      console.warn(`Restaurant provider "${provider.id}" failed, trying the next:`, error);
     }
   }
 
@@ -52,57 +59,47 @@ export async function searchRestaurantsAsync(params: SearchParams): Promise<Rest
   return searchRestaurants(params);
 }
 
+/**
+ * Add the details a search leaves out (structured hours, summary, reviews,
+ * attributes) from the restaurant's provider. Everything else, like the
+ * distance, stays as it was in the deck.
+ */
+export async function loadRestaurantDetails(restaurant: Restaurant): Promise<Restaurant> {
+  const provider = restaurant.source && getRestaurantProvider(restaurant.source.provider);
+  if (!restaurant.source || !provider) return restaurant;
+
+  const details = await provider.getDetails(restaurant.source.externalId);
+  if (!details) return restaurant;
+
+  return {
+    ...restaurant,
+    phone: details.phone ?? restaurant.phone,
+    website: details.website ?? restaurant.website,
+    hours: details.hours ?? restaurant.hours,
+    openingHours: details.openingHours,
+    editorialSummary: details.editorialSummary,
+    reviews: details.reviews,
+    attributes: details.attributes,
+  };
+}
+
 /**
  * Search and rank restaurants based on filters and group preferences (sync/mock data)
  */
 export function searchRestaurants(params: SearchParams): Restaurant[] {
-  const { filters, profiles = [] } = params;
+  const { filters, profiles = [], diners = [] } = params;
 
   // Step 1: Filter restaurants
-  let filtered = mockRestaurants.filter((restaurant) => {
-    // Rating filter
-    if (restaurant.rating < filters.minRating) {
-      return false;
-    }
-
-    // Distance filter
-    if (restaurant.distanceMiles > filters.maxDistance) {
-      return false;
-    }
-
-    // Price filter (if any selected)
-    if (
-      filters.priceRange.length > 0 &&
-      !filters.priceRange.includes(restaurant.priceLevel)
-    ) {
-      return false;
-    }
-
-    // Family-friendly filter (if set)
-    if (
-      filters.familyFriendly !== null &&
-      restaurant.familyFriendly !== filters.familyFriendly
-    ) {
-      return false;
-    }
-
-    // Cuisine filter (if any selected, restaurant must have at least one matching)
-    if (filters.cuisineTypes.length > 0) {
-      const hasMatchingCuisine = restaurant.cuisines.some((c) =>
-        filters.cuisineTypes.includes(c)
-      );
-      if (!hasMatchingCuisine) {
-        return false;
-      }
-    }
-
-    return true;
-  });
+  const filtered = withSource(
+    mockRestaurants.filter((restaurant) => matchesFilters(restaurant, filters)),
+    'mock',
+    'Sample data'
+  );
 
   // Step 2: Score and rank restaurants
   const scored: ScoredRestaurant[] = filtered.map((restaurant) => {
     const filterScore = calculateFilterScore(restaurant, filters);
-    const preferenceScore = calculatePreferenceScore(restaurant, profiles);
+    const preferenceScore = calculatePreferenceScore(restaurant, profiles, diners);
     const totalScore = filterScore + preferenceScore;
 
     return {
@@ -125,11 +122,12 @@ export function searchRestaurants(params: SearchParams): Restaurant[] {
 function rankRestaurants(
   restaurants: Restaurant[],
   filters: DiningFilters,
-  profiles: Profile[]
+  profiles: Profile[],
+  diners: DinerSelection[]
 ): Restaurant[] {
   const scored: ScoredRestaurant[] = restaurants.map((restaurant) => {
     const filterScore = calculateFilterScore(restaurant, filters);
-    const preferenceScore = calculatePreferenceScore(restaurant, profiles);
+    const preferenceScore = calculatePreferenceScore(restaurant, profiles, diners);
     const totalScore = filterScore + preferenceScore;
 
     return {
@@ -144,6 +142,68 @@ function rankRestaurants(
   return scored.map((s) => s.restaurant);
 }
 
+/**
+ * Re-rank the rest of a deck from the votes cast on the restaurants already
+ * seen. A price level or cuisine that more than half of the diners who voted
+ * on it turned down every time moves down; everything else keeps its rank.
+ */
+export function adaptRanking(
+  remaining: Restaurant[],
+  seen: Restaurant[],
+  votes: Record<string, Record<string, VoteStatus>>,
+  diners: DinerSelection[]
+): { restaurants: Restaurant[]; adjustments: DeckAdjustment[] } {
+  const traitsOf = (restaurant: Restaurant): DeckAdjustment[] => [
+    { kind: 'price', value: restaurant.priceLevel, rejectedBy: 0, votedOn: 0 },
+    ...restaurant.cuisines.map((value) => ({
+      kind: 'cuisine' as const,
+      value,
+      rejectedBy: 0,
+      votedOn: 0,
+    })),
+  ];
+  const hasTrait = (restaurant: Restaurant, trait: DeckAdjustment) =>
+    traitsOf(restaurant).some((t) => t.kind === trait.kind && t.value === trait.value);
+
+  const adjustments: DeckAdjustment[] = [];
+  const checked = new Set<string>();
+
+  for (const trait of seen.flatMap(traitsOf)) {
+    const key = `${trait.kind}:${trait.value}`;
+    if (checked.has(key)) continue;
+    checked.add(key);
+
+    const withTrait = seen.filter((r) => hasTrait(r, trait));
+    for (const diner of diners) {
+      const cast = withTrait
+        .map((r) => votes[r.id]?.[diner.profileId] || 'unknown')
+        .filter((status) => status !== 'unknown');
+      if (cast.length === 0) continue;
+
+      trait.votedOn++;
+      if (cast.every((status) => status === 'no' || status === 'veto')) {
+        trait.rejectedBy++;
+      }
+    }
+
+    // Only worth mentioning if something still to come is affected
+    if (trait.rejectedBy > trait.votedOn / 2 && remaining.some((r) => hasTrait(r, trait))) {
+      adjustments.push(trait);
+    }
+  }
+
+  adjustments.sort((a, b) => b.rejectedBy / b.votedOn - a.rejectedBy / a.votedOn);
+
+  // Stable sort keeps the original ranking among equally penalized restaurants
+  const penaltyOf = (restaurant: Restaurant) =>
+    adjustments
+      .filter((a) => hasTrait(restaurant, a))
+      .reduce((total, a) => total + a.rejectedBy / a.votedOn, 0);
+  const restaurants = [...remaining].sort((a, b) => penaltyOf(a) - penaltyOf(b));
+
+  return { restaurants, adjustments };
+}
+
 /**
  * Calculate score based on how well restaurant matches filters
  * Higher is better
@@ -172,36 +232,46 @@ function calculateFilterScore(
   return score;
 }
 
+// Sinks a restaurant the guest of honor hates below everything else
+const HONOREE_HATE_PENALTY = 10;
+
 /**
  * Calculate score based on group cuisine preferences
- * Aggregates preferences from all profiles
+ * Aggregates preferences from all profiles, weighted by diner weight
  */
 function calculatePreferenceScore(
   restaurant: Restaurant,
-  profiles: Profile[]
+  profiles: Profile[],
+  diners: DinerSelection[] = []
 ): number {
   if (profiles.length === 0) return 0;
 
   let totalScore = 0;
-  let preferenceCount = 0;
+  let totalWeight = 0;
+  let honoreeHatesIt = false;
 
   for (const profile of profiles) {
+    const diner = diners.find((d) => d.profileId === profile.id);
+    const weight = getDinerWeight(diner);
+
     for (const cuisine of restaurant.cuisines) {
       const preference = profile.cuisinePreferences[cuisine];
       if (preference !== undefined) {
-        totalScore += preference; // -2 to +2
-        preferenceCount++;
+        totalScore += preference * weight; // -2 to +2
+        totalWeight += weight;
+
+        if (diner?.honoree && preference === -2) {
+          honoreeHatesIt = true;
+        }
       }
     }
   }
 
-  // Normalize by number of preferences counted
+  // Normalize by the weight of preferences counted
   // Result ranges roughly from -2 to +2
-  if (preferenceCount > 0) {
-    return totalScore / preferenceCount;
-  }
+  const score = totalWeight > 0 ? totalScore / totalWeight : 0;
 
-  return 0;
+  return honoreeHatesIt ? score - HONOREE_HATE_PENALTY : score;
 }
 
 /**
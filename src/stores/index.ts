@@ -6,3 +6,5 @@ export { useFilterStore } from './useFilterStore';
 export { useProfileStore } from './useProfileStore';
 export { usePartyStore } from './usePartyStore';
 export { useLocationStore } from './useLocationStore';
+export { usePresenceStore } from './usePresenceStore';
+export { useRestaurantDetailsStore } from './useRestaurantDetailsStore';
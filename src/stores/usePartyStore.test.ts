@@ -0,0 +1,261 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { usePartyStore } from './usePartyStore';
+import {
+  PartyRepository,
+  createInMemoryPartyRepository,
+  setPartyRepository,
+} from '@/services/partyRepository';
+import { mockRestaurants } from '@/data/mockRestaurants';
+import { VETOES_PER_DINER } from '@/types';
+
+const deck = mockRestaurants.slice(0, 3);
+
+let repository: PartyRepository;
+
+/**
+ * A new device: nothing in its store yet
+ */
+function resetDevice() {
+  usePartyStore.setState({
+    party: null,
+    restaurants: [],
+    localDinerId: null,
+    isHostDevice: false,
+    pendingVotes: [],
+    undoStack: [],
+  });
+}
+
+/**
+ * The host creates a party, adds themselves and starts swiping
+ */
+function hostParty(): string {
+  const { createParty, addDiner, setDeck } = usePartyStore.getState();
+  const inviteId = createParty(null);
+  addDiner('host', 'remote');
+  setDeck(deck);
+  return inviteId;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  repository = createInMemoryPartyRepository();
+  setPartyRepository(repository);
+  resetDevice();
+});
+
+describe('createParty', () => {
+  it('starts a draft party run by this device', async () => {
+    const inviteId = usePartyStore.getState().createParty(null);
+
+    const { party, isHost } = usePartyStore.getState();
+    expect(party?.inviteId).toBe(inviteId);
+    expect(party?.status).toBe('draft');
+    expect(isHost()).toBe(true);
+    expect((await repository.load(inviteId))?.party).toEqual(party);
+  });
+
+  it('makes the first diner the host and saves the deck', async () => {
+    const inviteId = hostParty();
+
+    const { party } = usePartyStore.getState();
+    expect(party?.hostProfileId).toBe('host');
+    expect(party?.status).toBe('swiping');
+    expect((await repository.load(inviteId))?.party.deck?.restaurantIds).toEqual(
+      deck.map((r) => r.id)
+    );
+  });
+});
+
+describe('setDeck', () => {
+  it('leaves a closed party without a deck', () => {
+    usePartyStore.getState().createParty(null);
+    usePartyStore.getState().setStatus('cancelled');
+
+    expect(usePartyStore.getState().setDeck(deck)).toBe(false);
+    expect(usePartyStore.getState().party?.deck).toBeNull();
+  });
+});
+
+describe('removeDiner', () => {
+  it('hands the host role to a diner on this device', () => {
+    const { createParty, addDiner, removeDiner } = usePartyStore.getState();
+    createParty(null);
+    addDiner('host', 'inPerson');
+    addDiner('guest', 'remote');
+    addDiner('friend', 'inPerson');
+
+    removeDiner('host');
+
+    const { party, isHost } = usePartyStore.getState();
+    expect(party?.hostProfileId).toBe('friend');
+    expect(isHost()).toBe(true);
+  });
+});
+
+describe('joinParty', () => {
+  it('adds a remote diner who votes from their own device', async () => {
+    const inviteId = hostParty();
+
+    resetDevice();
+    await usePartyStore.getState().loadParty(inviteId);
+    usePartyStore.getState().joinParty('guest');
+
+    const { party, localDinerId, isHost, restaurants } = usePartyStore.getState();
+    expect(localDinerId).toBe('guest');
+    expect(isHost()).toBe(false);
+    expect(restaurants.map((r) => r.id)).toEqual(deck.map((r) => r.id));
+    expect(party?.selectedDiners).toEqual([
+      { profileId: 'host', mode: 'remote' },
+      { profileId: 'guest', mode: 'remote' },
+    ]);
+    expect((await repository.load(inviteId))?.party.selectedDiners).toHaveLength(2);
+  });
+
+  it('turns new diners away once joins are locked', async () => {
+    const inviteId = hostParty();
+    usePartyStore.getState().setJoinsLocked(true);
+
+    resetDevice();
+    await usePartyStore.getState().loadParty(inviteId);
+    usePartyStore.getState().joinParty('guest');
+
+    const { party, localDinerId } = usePartyStore.getState();
+    expect(localDinerId).toBeNull();
+    expect(party?.selectedDiners.map((d) => d.profileId)).toEqual(['host']);
+  });
+});
+
+describe('vote', () => {
+  it('records the vote and syncs it', async () => {
+    hostParty();
+    const { vote, flushPendingVotes } = usePartyStore.getState();
+
+    expect(vote('host', deck[0].id, 'yes')).toBe(true);
+    await flushPendingVotes();
+
+    const { party, pendingVotes, getVote } = usePartyStore.getState();
+    expect(getVote('host', deck[0].id)).toBe('yes');
+    expect(party?.votes[deck[0].id]).toEqual({ host: 'yes' });
+    expect(pendingVotes).toEqual([]);
+  });
+
+  it('rejects votes before swiping starts', () => {
+    usePartyStore.getState().createParty(null);
+    usePartyStore.getState().addDiner('host', 'remote');
+
+    expect(usePartyStore.getState().vote('host', deck[0].id, 'yes')).toBe(false);
+    expect(usePartyStore.getState().party?.votes).toEqual({});
+  });
+
+  it('rejects vetoes once they are used up', () => {
+    hostParty();
+    const { vote } = usePartyStore.getState();
+
+    for (let i = 0; i < VETOES_PER_DINER; i++) {
+      expect(vote('host', deck[i].id, 'veto')).toBe(true);
+    }
+    expect(vote('host', deck[VETOES_PER_DINER].id, 'veto')).toBe(false);
+    expect(usePartyStore.getState().getVote('host', deck[VETOES_PER_DINER].id)).toBe('unknown');
+  });
+
+  it('matches once every diner is in', async () => {
+    const inviteId = hostParty();
+    resetDevice();
+    await usePartyStore.getState().loadParty(inviteId);
+    usePartyStore.getState().joinParty('guest');
+
+    const { vote, checkForMatch } = usePartyStore.getState();
+    vote('guest', deck[0].id, 'maybe');
+    expect(checkForMatch(deck[0].id)).toBe(false);
+
+    // The host's vote arrives from their device
+    const stored = (await repository.load(inviteId))!;
+    await repository.save({
+      ...stored,
+      party: {
+        ...stored.party,
+        votes: { [deck[0].id]: { ...stored.party.votes[deck[0].id], host: 'yes' } },
+      },
+    });
+    await usePartyStore.getState().loadParty(inviteId);
+
+    expect(usePartyStore.getState().checkForMatch(deck[0].id)).toBe(true);
+  });
+});
+
+describe('merging remote changes', () => {
+  it('takes shared fields from the backend and keeps swipe progress', async () => {
+    const inviteId = hostParty();
+    const unsubscribe = usePartyStore.getState().subscribeToPartyUpdates();
+
+    usePartyStore.getState().advanceToNextRestaurant();
+
+    // Another device adds a diner and a vote, from further along the deck
+    const stored = (await repository.load(inviteId))!;
+    await repository.save({
+      ...stored,
+      party: {
+        ...stored.party,
+        selectedDiners: [...stored.party.selectedDiners, { profileId: 'guest', mode: 'remote' }],
+        votes: { [deck[2].id]: { guest: 'no' } },
+        currentRestaurantIndex: 2,
+        updatedAt: stored.party.updatedAt + 1,
+      },
+    });
+    unsubscribe();
+
+    const { party } = usePartyStore.getState();
+    expect(party?.selectedDiners.map((d) => d.profileId)).toEqual(['host', 'guest']);
+    expect(party?.votes[deck[2].id]).toEqual({ guest: 'no' });
+    expect(party?.currentRestaurantIndex).toBe(1);
+    expect(party?.seenRestaurantIds).toEqual([deck[0].id]);
+  });
+
+  it('keeps votes the backend has not confirmed yet', async () => {
+    const inviteId = hostParty();
+    const stored = (await repository.load(inviteId))!;
+
+    // Offline: the vote stays queued
+    setPartyRepository({
+      ...repository,
+      saveVotes: () => Promise.reject(new Error('offline')),
+    });
+    usePartyStore.getState().vote('host', deck[0].id, 'maybe');
+    await usePartyStore.getState().flushPendingVotes();
+    setPartyRepository(repository);
+
+    // A snapshot from before the vote doesn't wipe it out
+    await repository.save(stored);
+    await usePartyStore.getState().loadParty(inviteId);
+
+    const { party, pendingVotes } = usePartyStore.getState();
+    expect(party?.votes[deck[0].id]).toEqual({ host: 'maybe' });
+    expect(pendingVotes).toHaveLength(1);
+  });
+
+  it('starts everyone over when voting restarts', async () => {
+    const inviteId = hostParty();
+    usePartyStore.getState().vote('host', deck[0].id, 'yes');
+    usePartyStore.getState().advanceToNextRestaurant();
+
+    // The host restarts voting from another device
+    const stored = (await repository.load(inviteId))!;
+    await repository.save({
+      ...stored,
+      party: {
+        ...stored.party,
+        votes: {},
+        seenRestaurantIds: [],
+        currentRestaurantIndex: 0,
+        votingResetAt: Date.now() + 1,
+      },
+    });
+    await usePartyStore.getState().loadParty(inviteId);
+
+    const { party } = usePartyStore.getState();
+    expect(party?.currentRestaurantIndex).toBe(0);
+    expect(party?.seenRestaurantIds).toEqual([]);
+  });
+});
@@ -3,19 +3,21 @@
  *
  * Manages the dining party/session state including:
  * - Selected diners and their attendance modes
- * - Votes for each restaurant
- * - Match detection
+ * - Votes for each restaurant (including strong yeses and limited vetoes)
+ * - Match detection, by the party's consensus policy (unanimous by default)
+ *   with optional per-diner weights and a guest of honor
  * - In-Person pass-the-phone flow (one person swipes all 10, then next)
+ * - Which diner this device votes as (remote diners each use their own phone)
+ * - The shared restaurant deck, so every diner swipes the same cards, and
+ *   this device's re-ranking of what's left of it from votes so far
+ * - Lifecycle status (see PARTY_STATUS_TRANSITIONS) and invite expiry
+ * - Votes waiting to sync (queued offline, replayed on reconnect)
+ * - Undo for this device's last few swipes
+ * - Host-only controls (keyed on hostProfileId): locking joins, removing
+ *   diners, restarting voting, changing filters and setting a time box
  *
- * TODO: Replace with real-time backend
- * Options for real-time sync:
- * 1. Firebase Realtime Database / Firestore
- * 2. Supabase Realtime
- * 3. Custom WebSocket server
- * 4. Pusher / Ably
- *
- * The party state would be stored in a database keyed by inviteId,
- * and changes would be broadcast to all connected clients.
+ * Persistence goes through a PartyRepository (see partyRepository), which
+ * is Supabase with realtime sync when configured and LocalStorage otherwise.
  */
 
 import { create } from 'zustand';
@@ -28,39 +30,119 @@ import {
   AttendanceMode,
   VoteStatus,
   Restaurant,
+  PartyDeck,
+  PartyStatus,
+  PARTY_STATUS_TRANSITIONS,
+  PendingVote,
+  VETOES_PER_DINER,
+  VOTE_WEIGHTS,
+  ConsensusPolicy,
+  DEFAULT_CONSENSUS,
+  RankedChoiceResult,
+  VotingMode,
+  DEFAULT_APPROVAL_BUDGET,
+  TimeBox,
+  NearMiss,
+  DeckAdjustment,
 } from '@/types';
-import { generateInviteId } from '@/utils/helpers';
+import {
+  generateInviteId,
+  isPositiveVote,
+  isRuledOut,
+  meetsConsensus,
+  getDinerWeight,
+  resolveRankedChoice,
+  getHoldouts,
+  countVotesShort,
+} from '@/utils/helpers';
+import {
+  getPartyRepository,
+  mergeRemoteParty,
+  PartySnapshot,
+} from '@/services/partyRepository';
+import { adaptRanking } from '@/services/restaurantService';
+import { useProfileStore } from './useProfileStore';
+
+/**
+ * A swipe this device can take back
+ */
+interface SwipeUndo {
+  dinerId: string;
+  restaurantId: string;
+  previousVote: VoteStatus;
+  restaurantIndex: number; // Card the swipe was made on
+  seenCount: number; // seenRestaurantIds length before the swipe
+  votedAt: number;
+}
 
 interface PartyStoreState {
   party: PartyState | null;
   restaurants: Restaurant[];
+  /** Diner this device votes as (set when joining remotely) - never synced */
+  localDinerId: string | null;
+  /** Whether this device created the party (and so builds its deck) - never synced */
+  isHostDevice: boolean;
+  /** Votes cast here that the backend hasn't confirmed yet */
+  pendingVotes: PendingVote[];
+  /** This device's most recent swipes, newest last - never persisted */
+  undoStack: SwipeUndo[];
 
   // Party lifecycle
   createParty: (hostProfileId: string | null, filters?: DiningFilters) => string;
-  loadParty: (inviteId: string) => PartyState | null;
+  loadParty: (inviteId: string) => Promise<PartyState | null>;
   clearParty: () => void;
+  subscribeToPartyUpdates: () => () => void; // Returns unsubscribe
+  setStatus: (status: PartyStatus) => boolean; // Returns false if the transition isn't allowed
+  isPartyOpen: () => boolean; // False once decided, expired or cancelled
+  getInviteExpiry: () => number | null;
+
+  // Host controls (no-ops unless isHost)
+  isHost: () => boolean;
+  setJoinsLocked: (locked: boolean) => void;
+  restartVoting: () => void; // Clears all votes and sends everyone back to the first card
+  updateFilters: (filters: DiningFilters) => void; // Drops the deck so it's rebuilt
+  setConsensus: (consensus: ConsensusPolicy) => void;
+  setVotingMode: (mode: VotingMode) => void; // Host only - voting starts over
+  setApprovalBudget: (budget: number) => void; // Host only
+  setTimeBox: (timeBox: TimeBox | null) => void; // Host only
 
   // Diner management
   addDiner: (profileId: string, mode?: AttendanceMode) => void;
-  removeDiner: (profileId: string) => void;
-  setDinerMode: (profileId: string, mode: AttendanceMode) => void;
+  removeDiner: (profileId: string) => void; // Host only - also drops their votes
+  setDinerMode: (profileId: string, mode: AttendanceMode) => void; // Host only
+  setDinerWeight: (profileId: string, weight: number) => void; // Host only
+  setHonoree: (profileId: string, honoree: boolean) => void; // Host only
   isDinerSelected: (profileId: string) => boolean;
   getInPersonDiners: () => DinerSelection[];
   getRemoteDiners: () => DinerSelection[];
 
+  // Device identity
+  setLocalDiner: (profileId: string | null) => void;
+  joinParty: (profileId: string) => void; // Adds as remote diner and votes as them here
+  getLocalDiner: () => DinerSelection | null;
+  getDeviceDiners: () => DinerSelection[]; // Everyone who votes on this device
+
   // Date/time
   setDateTime: (dateTime: string | null) => void;
 
   // Restaurant management
   setRestaurants: (restaurants: Restaurant[]) => void;
+  setDeck: (restaurants: Restaurant[]) => boolean; // Snapshots the ranked deck into the party; false once it's closed
   getCurrentRestaurant: () => Restaurant | null;
   advanceToNextRestaurant: () => void;
+  adaptDeck: () => DeckAdjustment[]; // Host only - re-ranks the unswiped cards for every device
 
   // Voting
-  vote: (dinerId: string, restaurantId: string, status: VoteStatus) => void;
+  vote: (dinerId: string, restaurantId: string, status: VoteStatus) => boolean; // False when not recorded
+  changeVote: (dinerId: string, restaurantId: string, status: VoteStatus) => boolean; // Seen restaurants only
   getVote: (dinerId: string, restaurantId: string) => VoteStatus;
   getAllVotesForRestaurant: (restaurantId: string) => Record<string, VoteStatus>;
+  getVetoesRemaining: (dinerId: string) => number;
   checkForMatch: (restaurantId: string) => boolean;
+  isMatchDecidedByServer: () => boolean; // When true, only follow party.matchedRestaurantId
+  flushPendingVotes: () => Promise<void>; // Replays queued votes (no-op while offline)
+  canUndo: (dinerId: string) => boolean;
+  undoLastSwipe: (dinerId: string) => boolean; // Reverts the diner's last vote and card
 
   // In-Person flow (one person swipes all restaurants, then passes to next)
   getCurrentInPersonDiner: () => DinerSelection | null;
@@ -68,24 +150,314 @@ interface PartyStoreState {
   resetInPersonFlow: () => void;
   hasCurrentInPersonDinerFinishedRound: (roundSize: number) => boolean;
 
+  // Near misses
+  getNearMisses: () => NearMiss[]; // Closest first
+  askToReconsider: (restaurantId: string) => void; // Re-queues the card for its holdouts only
+  getReconsiderQueue: (dinerId: string) => Restaurant[];
+  answerReconsider: (dinerId: string, restaurantId: string, status: VoteStatus) => boolean; // False when not recorded
+
+  // Approval mode
+  setApproval: (dinerId: string, restaurantId: string, status: 'yes' | 'veto' | 'unknown') => boolean; // False when over budget
+  getApprovalsRemaining: (dinerId: string) => number;
+  finishApprovals: (dinerId: string) => void;
+  getApprovalTally: () => { restaurant: Restaurant; approvals: number }[]; // Most approved first, vetoed ones left out
+
+  // Ranked choice
+  submitRanking: (dinerId: string, restaurantIds: string[]) => void; // Favorite first
+  getRankedChoiceResult: (restaurantIds: string[]) => RankedChoiceResult | null; // Null until every diner has ranked
+
   // Match
   setMatch: (restaurantId: string) => void;
   getMatchedRestaurant: () => Restaurant | null;
 
   // Utility
-  getRestaurantsWithMaybeVotes: () => Restaurant[];
-  getRestaurantsWithUnanimousMaybes: () => Restaurant[];
+  getRestaurantsWithMaybeVotes: () => Restaurant[]; // Strongest first, vetoed ones left out
+  getRestaurantsWithConsensus: () => Restaurant[]; // Meets the consensus policy, strongest first
+  getSeenRestaurants: () => Restaurant[]; // Most recently swiped first
   clearVotesForRestaurant: (restaurantId: string) => void;
 }
 
-// Storage key prefix for parties
-const PARTY_STORAGE_KEY = 'swipe-to-dine-party-';
+// Hours after the dinner (or party creation, if no date is set) that an invite stays open
+const INVITE_EXPIRY_HOURS = Number(process.env.NEXT_PUBLIC_INVITE_EXPIRY_HOURS) || 12;
+
+function isClosed(party: PartyState): boolean {
+  return PARTY_STATUS_TRANSITIONS[party.status].length === 0;
+}
+
+function inviteExpiry(party: PartyState): number {
+  const start = party.dateTime ? new Date(party.dateTime).getTime() : party.createdAt;
+  return start + INVITE_EXPIRY_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Move a party to a new status (unchanged if already there).
+ * Returns null if the lifecycle doesn't allow the transition.
+ */
+function withStatus(party: PartyState, status: PartyStatus): PartyState | null {
+  if (party.status === status) return party;
+  if (!PARTY_STATUS_TRANSITIONS[party.status].includes(status)) return null;
+  return { ...party, status, updatedAt: Date.now() };
+}
+
+function countVetoes(party: PartyState, dinerId: string): number {
+  return Object.values(party.votes).filter((votes) => votes[dinerId] === 'veto').length;
+}
+
+function countApprovals(party: PartyState, dinerId: string): number {
+  return Object.values(party.votes).filter((votes) => votes[dinerId] === 'yes').length;
+}
+
+/**
+ * Order restaurants by total vote weight (strong yeses and weighted diners
+ * first), keeping deck order between ties
+ */
+function rankByVotes(party: PartyState, restaurants: Restaurant[]): Restaurant[] {
+  const score = (restaurant: Restaurant) =>
+    Object.entries(party.votes[restaurant.id] || {}).reduce((total, [dinerId, status]) => {
+      const diner = party.selectedDiners.find((d) => d.profileId === dinerId);
+      return total + VOTE_WEIGHTS[status] * getDinerWeight(diner);
+    }, 0);
+
+  return [...restaurants].sort((a, b) => score(b) - score(a));
+}
+
+/**
+ * Expire an open party whose invite has run out
+ */
+function expireIfStale(party: PartyState): PartyState {
+  if (isClosed(party) || Date.now() < inviteExpiry(party)) return party;
+  return withStatus(party, 'expired') || party;
+}
+
+/**
+ * Save a party change through the active repository (fire and forget)
+ */
+function persistParty(party: PartyState): void {
+  if (typeof window === 'undefined') return;
+
+  // Include diner profiles so other devices can show names and avatars
+  const memberIds = new Set(party.selectedDiners.map((d) => d.profileId));
+  if (party.hostProfileId) memberIds.add(party.hostProfileId);
+  const profiles = useProfileStore
+    .getState()
+    .profiles.filter((p) => memberIds.has(p.id));
+
+  getPartyRepository()
+    .save({ party, profiles })
+    .catch((error) => {
+      console.error('Failed to save party:', error);
+    });
+}
+
+/**
+ * Record a vote and queue it for sync. Returns null if the party isn't
+ * taking votes or the diner is out of vetoes.
+ */
+function withVote(
+  state: PartyStoreState,
+  dinerId: string,
+  restaurantId: string,
+  status: VoteStatus
+): { party: PartyState; pendingVotes: PendingVote[] } | null {
+  // Votes only count while swiping or shortlisting
+  if (state.party?.status !== 'swiping' && state.party?.status !== 'shortlisting') {
+    return null;
+  }
+
+  // Vetoes are limited (changing a veto to another vote frees it up)
+  if (
+    status === 'veto' &&
+    state.party.votes[restaurantId]?.[dinerId] !== 'veto' &&
+    countVetoes(state.party, dinerId) >= VETOES_PER_DINER
+  ) {
+    return null;
+  }
+
+  const now = Date.now();
+  const updatedParty = {
+    ...state.party,
+    votes: {
+      ...state.party.votes,
+      [restaurantId]: {
+        ...(state.party.votes[restaurantId] || {}),
+        [dinerId]: status,
+      },
+    },
+    updatedAt: now,
+  };
+
+  persistParty(updatedParty);
+
+  // Queue the vote until the backend confirms it (replaces any older
+  // queued vote for the same restaurant and diner)
+  const pendingVotes = [
+    ...state.pendingVotes.filter((v) => v.restaurantId !== restaurantId || v.dinerId !== dinerId),
+    { restaurantId, dinerId, status, votedAt: now },
+  ];
+
+  return { party: updatedParty, pendingVotes };
+}
+
+/**
+ * A diner with fields at their defaults left unset, the same as a diner
+ * read back from the backend (see dinerFromRow)
+ */
+function withoutDefaults(diner: DinerSelection): DinerSelection {
+  return {
+    ...diner,
+    weight: diner.weight !== 1 ? diner.weight : undefined,
+    honoree: diner.honoree || undefined,
+    approvalsDone: diner.approvalsDone || undefined,
+    reconsider: diner.reconsider?.length ? diner.reconsider : undefined,
+  };
+}
+
+/**
+ * Apply changes to one selected diner (open parties only) and save them
+ */
+function withDinerChanges(
+  state: PartyStoreState,
+  profileId: string,
+  changes: Partial<Omit<DinerSelection, 'profileId'>>
+): PartyStoreState {
+  if (!state.party || isClosed(state.party)) return state;
+
+  const updatedParty = {
+    ...state.party,
+    selectedDiners: state.party.selectedDiners.map((d) =>
+      d.profileId === profileId ? withoutDefaults({ ...d, ...changes }) : d
+    ),
+    updatedAt: Date.now(),
+  };
+
+  persistParty(updatedParty);
+
+  return { ...state, party: updatedParty };
+}
+
+// How many swipes can be taken back
+const UNDO_LIMIT = 3;
+
+// Restaurants at most this many votes short of consensus count as near misses
+const NEAR_MISS_MAX_VOTES_SHORT = 2;
+
+// Retry delay for votes that failed to sync while online
+const VOTE_RETRY_MS = 10_000;
+
+let isFlushingVotes = false;
+let voteRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Drop queued votes the party no longer accepts: ones cast before the
+ * host restarted voting, or by diners who were removed
+ */
+function stillPending(party: PartyState, pendingVotes: PendingVote[]): PendingVote[] {
+  return pendingVotes.filter(
+    (v) =>
+      (party.votingResetAt === null || v.votedAt >= party.votingResetAt) &&
+      party.selectedDiners.some((d) => d.profileId === v.dinerId)
+  );
+}
+
+/**
+ * Lay votes that haven't synced yet over a party from storage,
+ * so a refresh doesn't hide them until they land
+ */
+function withPendingVotes(party: PartyState, pendingVotes: PendingVote[]): PartyState {
+  if (pendingVotes.length === 0) return party;
+
+  const votes = { ...party.votes };
+  for (const pending of pendingVotes) {
+    votes[pending.restaurantId] = {
+      ...(votes[pending.restaurantId] || {}),
+      [pending.dinerId]: pending.status,
+    };
+  }
+  return { ...party, votes };
+}
+
+/**
+ * Clear every vote and all swipe progress
+ */
+function withVotingReset(party: PartyState): PartyState {
+  // Restarting from the shortlist goes back to swiping
+  const base = party.status === 'shortlisting' ? withStatus(party, 'swiping') || party : party;
+  const now = Date.now();
+  return {
+    ...base,
+    votes: {},
+    // Ballots rank a shortlist that no longer exists
+    selectedDiners: base.selectedDiners.map((d) => ({
+      ...d,
+      ranking: undefined,
+      approvalsDone: undefined,
+      reconsider: undefined,
+    })),
+    seenRestaurantIds: [],
+    currentRestaurantIndex: 0,
+    currentInPersonDinerIndex: 0,
+    inPersonDinerStartIndex: 0,
+    // The deck goes back to its original ranking
+    deckOrder: undefined,
+    deckAdjustments: undefined,
+    votingResetAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Snapshot ranked restaurants into a deck
+ */
+function createDeck(restaurants: Restaurant[]): PartyDeck {
+  return {
+    restaurantIds: restaurants.map((r) => r.id),
+    restaurants: Object.fromEntries(restaurants.map((r) => [r.id, r])),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Restaurants of a deck in ranked order (or this device's re-ranked order)
+ */
+function restaurantsFromDeck(deck: PartyDeck, order = deck.restaurantIds): Restaurant[] {
+  return order
+    .map((id) => deck.restaurants[id])
+    .filter(Boolean);
+}
+
+/**
+ * Restaurants to show after moving from one party state to the next.
+ * Keeps the current list unless the deck was (re)built or (re)ordered.
+ */
+function restaurantsForParty(
+  previous: PartyState | null,
+  next: PartyState,
+  restaurants: Restaurant[]
+): Restaurant[] {
+  const isSameParty = previous?.inviteId === next.inviteId;
+  if (!next.deck) {
+    return isSameParty ? restaurants : [];
+  }
+  if (
+    isSameParty &&
+    previous.deck?.createdAt === next.deck.createdAt &&
+    previous.deckOrder === next.deckOrder &&
+    restaurants.length > 0
+  ) {
+    return restaurants;
+  }
+  return restaurantsFromDeck(next.deck, next.deckOrder);
+}
 
 export const usePartyStore = create<PartyStoreState>()(
   persist(
     (set, get) => ({
       party: null,
       restaurants: [],
+      localDinerId: null,
+      isHostDevice: false,
+      pendingVotes: [],
+      undoStack: [],
 
       createParty: (hostProfileId, filters) => {
         const inviteId = generateInviteId();
@@ -93,10 +465,18 @@ export const usePartyStore = create<PartyStoreState>()(
 
         const newParty: PartyState = {
           inviteId,
+          status: 'draft',
           hostProfileId,
           dateTime: null,
           filters: filters || { ...DEFAULT_FILTERS },
           selectedDiners: [],
+          consensus: DEFAULT_CONSENSUS,
+          votingMode: 'swipe',
+          approvalBudget: DEFAULT_APPROVAL_BUDGET,
+          timeBox: null,
+          joinsLocked: false,
+          votingResetAt: null,
+          deck: null,
           votes: {},
           seenRestaurantIds: [],
           matchedRestaurantId: null,
@@ -109,109 +489,350 @@ export const usePartyStore = create<PartyStoreState>()(
         };
 
         // Clear old restaurants so new ones are fetched based on new filters
-        set({ party: newParty, restaurants: [] });
+        set({
+          party: newParty,
+          restaurants: [],
+          localDinerId: null,
+          isHostDevice: true,
+          pendingVotes: [],
+          undoStack: [],
+        });
 
-        // Also save to localStorage with inviteId key for cross-device access
-        if (typeof window !== 'undefined') {
-          localStorage.setItem(
-            `${PARTY_STORAGE_KEY}${inviteId}`,
-            JSON.stringify(newParty)
-          );
-        }
+        // Also save under the inviteId so other devices can load it
+        persistParty(newParty);
 
         return inviteId;
       },
 
-      loadParty: (inviteId) => {
+      loadParty: async (inviteId) => {
         if (typeof window === 'undefined') return null;
 
-        const stored = localStorage.getItem(`${PARTY_STORAGE_KEY}${inviteId}`);
-        if (stored) {
-          const party = JSON.parse(stored) as PartyState;
-          set({ party });
-          return party;
+        let snapshot: PartySnapshot | null;
+        try {
+          snapshot = await getPartyRepository().load(inviteId);
+        } catch (error) {
+          console.error('Failed to load party:', error);
+          return null;
+        }
+        if (!snapshot) return null;
+
+        // Remote devices need everyone else's profiles for avatars and names
+        useProfileStore.getState().importProfiles(snapshot.profiles);
+
+        const { party: current, restaurants, localDinerId, isHostDevice, pendingVotes, undoStack } =
+          get();
+        const isSameParty = current?.inviteId === inviteId;
+        const remote = mergeRemoteParty(current, snapshot.party);
+        const stillQueued = isSameParty ? stillPending(remote, pendingVotes) : [];
+        const merged = withPendingVotes(remote, stillQueued);
+        const party = expireIfStale(merged);
+        if (party !== merged) {
+          persistParty(party);
         }
-        return null;
+        set({
+          party,
+          restaurants: restaurantsForParty(current, party, restaurants),
+          localDinerId: isSameParty ? localDinerId : null,
+          isHostDevice: isSameParty ? isHostDevice : false,
+          pendingVotes: stillQueued,
+          undoStack: isSameParty ? undoStack : [],
+        });
+        return party;
       },
 
-      clearParty: () => set({ party: null, restaurants: [] }),
+      clearParty: () =>
+        set({
+          party: null,
+          restaurants: [],
+          localDinerId: null,
+          isHostDevice: false,
+          pendingVotes: [],
+          undoStack: [],
+        }),
+
+      subscribeToPartyUpdates: () => {
+        const { party } = get();
+        if (!party) {
+          return () => {};
+        }
+
+        return getPartyRepository().subscribe(party.inviteId, (snapshot) => {
+          useProfileStore.getState().importProfiles(snapshot.profiles);
+
+          set((state) => {
+            if (state.party?.inviteId !== snapshot.party.inviteId) return state;
+            const remote = mergeRemoteParty(state.party, snapshot.party);
+            const pendingVotes = stillPending(remote, state.pendingVotes);
+            const party = withPendingVotes(remote, pendingVotes);
+            return {
+              pendingVotes,
+              party,
+              restaurants: restaurantsForParty(state.party, party, state.restaurants),
+            };
+          });
+        });
+      },
+
+      setStatus: (status) => {
+        const { party } = get();
+        if (!party) return false;
+
+        const updatedParty = withStatus(party, status);
+        if (!updatedParty) return false;
+
+        if (updatedParty !== party) {
+          persistParty(updatedParty);
+          set({ party: updatedParty });
+        }
+        return true;
+      },
+
+      isPartyOpen: () => {
+        const { party } = get();
+        return !!party && !isClosed(party);
+      },
+
+      getInviteExpiry: () => {
+        const { party } = get();
+        return party ? inviteExpiry(party) : null;
+      },
+
+      isHost: () => {
+        const { party, localDinerId, isHostDevice } = get();
+        if (!party) return false;
+
+        // Until a host is picked, the device that created the party runs it
+        if (!party.hostProfileId) return isHostDevice;
+
+        // The creating device acts as the host unless it votes as someone else
+        const deviceDinerId = localDinerId ?? (isHostDevice ? party.hostProfileId : null);
+        return deviceDinerId === party.hostProfileId;
+      },
+
+      setJoinsLocked: (locked) => {
+        if (!get().isHost()) return;
 
-      addDiner: (profileId, mode = 'remote') => {
         set((state) => {
-          if (!state.party) return state;
+          if (!state.party || isClosed(state.party)) return state;
 
-          // Check if already added
-          if (state.party.selectedDiners.some((d) => d.profileId === profileId)) {
+          const updatedParty = {
+            ...state.party,
+            joinsLocked: locked,
+            updatedAt: Date.now(),
+          };
+
+          persistParty(updatedParty);
+
+          return { party: updatedParty };
+        });
+      },
+
+      restartVoting: () => {
+        if (!get().isHost()) return;
+
+        set((state) => {
+          if (!state.party || isClosed(state.party)) return state;
+
+          const updatedParty = withVotingReset(state.party);
+
+          persistParty(updatedParty);
+
+          return {
+            party: updatedParty,
+            restaurants: restaurantsForParty(state.party, updatedParty, state.restaurants),
+            pendingVotes: [],
+            undoStack: [],
+          };
+        });
+      },
+
+      updateFilters: (filters) => {
+        if (!get().isHost()) return;
+
+        set((state) => {
+          if (!state.party || isClosed(state.party)) return state;
+
+          // Votes were cast on the old deck, so voting starts over
+          const updatedParty = {
+            ...withVotingReset(state.party),
+            filters,
+            deck: null,
+          };
+
+          persistParty(updatedParty);
+
+          return { party: updatedParty, restaurants: [], pendingVotes: [], undoStack: [] };
+        });
+      },
+
+      setConsensus: (consensus) => {
+        if (!get().isHost()) return;
+
+        set((state) => {
+          if (!state.party || isClosed(state.party)) return state;
+
+          const updatedParty = {
+            ...state.party,
+            consensus,
+            updatedAt: Date.now(),
+          };
+
+          persistParty(updatedParty);
+
+          return { party: updatedParty };
+        });
+      },
+
+      setVotingMode: (mode) => {
+        if (!get().isHost()) return;
+
+        set((state) => {
+          if (!state.party || isClosed(state.party) || state.party.votingMode === mode) {
             return state;
           }
 
+          // Swipes and approvals don't mix, so voting starts over
+          const updatedParty = {
+            ...withVotingReset(state.party),
+            votingMode: mode,
+          };
+
+          persistParty(updatedParty);
+
+          return {
+            party: updatedParty,
+            restaurants: restaurantsForParty(state.party, updatedParty, state.restaurants),
+            pendingVotes: [],
+            undoStack: [],
+          };
+        });
+      },
+
+      setApprovalBudget: (budget) => {
+        if (!get().isHost()) return;
+
+        set((state) => {
+          if (!state.party || isClosed(state.party)) return state;
+
           const updatedParty = {
             ...state.party,
-            selectedDiners: [
-              ...state.party.selectedDiners,
-              { profileId, mode },
-            ],
+            approvalBudget: budget,
             updatedAt: Date.now(),
           };
 
-          // Sync to localStorage
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
       },
 
-      removeDiner: (profileId) => {
+      setTimeBox: (timeBox) => {
+        if (!get().isHost()) return;
+
         set((state) => {
-          if (!state.party) return state;
+          if (!state.party || isClosed(state.party)) return state;
 
           const updatedParty = {
             ...state.party,
-            selectedDiners: state.party.selectedDiners.filter(
-              (d) => d.profileId !== profileId
-            ),
+            timeBox,
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
+          persistParty(updatedParty);
+
+          return { party: updatedParty };
+        });
+      },
+
+      addDiner: (profileId, mode = 'remote') => {
+        const { isHostDevice } = get();
+
+        set((state) => {
+          if (!state.party || isClosed(state.party)) return state;
+
+          // Check if already added
+          if (state.party.selectedDiners.some((d) => d.profileId === profileId)) {
+            return state;
           }
 
+          // The first diner moves a draft party into gathering
+          const party = withStatus(state.party, 'gathering') || state.party;
+          const updatedParty = {
+            ...party,
+            // The first diner added on the creating device becomes the host
+            hostProfileId: party.hostProfileId ?? (isHostDevice ? profileId : null),
+            selectedDiners: [
+              ...party.selectedDiners,
+              { profileId, mode },
+            ],
+            updatedAt: Date.now(),
+          };
+
+          persistParty(updatedParty);
+
           return { party: updatedParty };
         });
       },
 
-      setDinerMode: (profileId, mode) => {
+      removeDiner: (profileId) => {
+        if (!get().isHost()) return;
+
         set((state) => {
-          if (!state.party) return state;
+          if (!state.party || isClosed(state.party)) return state;
+
+          const selectedDiners = state.party.selectedDiners.filter(
+            (d) => d.profileId !== profileId
+          );
+
+          const votes: PartyState['votes'] = {};
+          for (const [restaurantId, byDiner] of Object.entries(state.party.votes)) {
+            const remaining = { ...byDiner };
+            delete remaining[profileId];
+            votes[restaurantId] = remaining;
+          }
+
+          // Removing the host hands the party to the next diner on this device
+          // (in person, or the only one left); with nobody here it stays unhosted
+          // and this device keeps running it
+          const nextHost =
+            selectedDiners.find((d) => d.mode === 'inPerson') ??
+            (selectedDiners.length === 1 ? selectedDiners[0] : undefined);
 
           const updatedParty = {
             ...state.party,
-            selectedDiners: state.party.selectedDiners.map((d) =>
-              d.profileId === profileId ? { ...d, mode } : d
-            ),
+            hostProfileId:
+              state.party.hostProfileId === profileId
+                ? nextHost?.profileId ?? null
+                : state.party.hostProfileId,
+            selectedDiners,
+            votes,
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
-          return { party: updatedParty };
+          return {
+            party: updatedParty,
+            pendingVotes: state.pendingVotes.filter((v) => v.dinerId !== profileId),
+          };
         });
       },
 
+      setDinerMode: (profileId, mode) => {
+        if (!get().isHost()) return;
+        set((state) => withDinerChanges(state, profileId, { mode }));
+      },
+
+      setDinerWeight: (profileId, weight) => {
+        if (!get().isHost()) return;
+        set((state) => withDinerChanges(state, profileId, { weight }));
+      },
+
+      setHonoree: (profileId, honoree) => {
+        if (!get().isHost()) return;
+        set((state) => withDinerChanges(state, profileId, { honoree }));
+      },
+
       isDinerSelected: (profileId) => {
         const { party } = get();
         return party?.selectedDiners.some((d) => d.profileId === profileId) || false;
@@ -227,6 +848,39 @@ export const usePartyStore = create<PartyStoreState>()(
         return party?.selectedDiners.filter((d) => d.mode === 'remote') || [];
       },
 
+      setLocalDiner: (profileId) => set({ localDinerId: profileId }),
+
+      joinParty: (profileId) => {
+        const { party, isPartyOpen, isDinerSelected, addDiner } = get();
+        if (!party || !isPartyOpen()) return;
+
+        // Diners already in a locked party can still rejoin on this device
+        if (!isDinerSelected(profileId)) {
+          if (party.joinsLocked) return;
+          addDiner(profileId, 'remote');
+        }
+        set({ localDinerId: profileId });
+      },
+
+      getLocalDiner: () => {
+        const { party, localDinerId } = get();
+        if (!party || !localDinerId) return null;
+        return party.selectedDiners.find((d) => d.profileId === localDinerId) || null;
+      },
+
+      getDeviceDiners: () => {
+        const { party } = get();
+        if (!party) return [];
+
+        // A joined device votes as its own diner; otherwise it's the single
+        // diner or everyone passing the phone
+        const localDiner = get().getLocalDiner();
+        if (localDiner) return [localDiner];
+        return party.selectedDiners.filter(
+          (d) => d.mode === 'inPerson' || party.selectedDiners.length === 1
+        );
+      },
+
       setDateTime: (dateTime) => {
         set((state) => {
           if (!state.party) return state;
@@ -237,12 +891,7 @@ export const usePartyStore = create<PartyStoreState>()(
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
@@ -250,6 +899,34 @@ export const usePartyStore = create<PartyStoreState>()(
 
       setRestaurants: (restaurants) => set({ restaurants }),
 
+      setDeck: (restaurants) => {
+        let applied = true;
+        set((state) => {
+          if (!state.party) return { restaurants };
+
+          // Building the deck starts swiping (not possible once decided,
+          // expired or cancelled)
+          const party = withStatus(state.party, 'swiping');
+          if (!party) {
+            applied = false;
+            return state;
+          }
+
+          const updatedParty = {
+            ...party,
+            deck: createDeck(restaurants),
+            deckOrder: undefined,
+            deckAdjustments: undefined,
+            updatedAt: Date.now(),
+          };
+
+          persistParty(updatedParty);
+
+          return { party: updatedParty, restaurants };
+        });
+        return applied;
+      },
+
       getCurrentRestaurant: () => {
         const { party, restaurants } = get();
         if (!party || restaurants.length === 0) return null;
@@ -273,44 +950,86 @@ export const usePartyStore = create<PartyStoreState>()(
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
       },
 
+      adaptDeck: () => {
+        const { party, restaurants } = get();
+        // One device decides, so every diner keeps seeing the same order
+        if (!party?.deck || !get().isHost()) return [];
+
+        // Cards before the current one keep their places so undo still lines up
+        const seen = restaurants.slice(0, party.currentRestaurantIndex);
+        const adapted = adaptRanking(
+          restaurants.slice(party.currentRestaurantIndex),
+          seen,
+          party.votes,
+          party.selectedDiners
+        );
+        const reordered = [...seen, ...adapted.restaurants];
+
+        const updatedParty = {
+          ...party,
+          deckOrder: reordered.map((r) => r.id),
+          deckAdjustments: adapted.adjustments,
+          updatedAt: Date.now(),
+        };
+
+        persistParty(updatedParty);
+        set({ party: updatedParty, restaurants: reordered });
+
+        return adapted.adjustments;
+      },
+
       vote: (dinerId, restaurantId, status) => {
+        let recorded = false;
         set((state) => {
-          if (!state.party) return state;
-
-          const updatedVotes = {
-            ...state.party.votes,
-            [restaurantId]: {
-              ...(state.party.votes[restaurantId] || {}),
-              [dinerId]: status,
-            },
+          const voted = withVote(state, dinerId, restaurantId, status);
+          if (!voted) return state;
+          recorded = true;
+
+          const undo: SwipeUndo = {
+            dinerId,
+            restaurantId,
+            previousVote: state.party?.votes[restaurantId]?.[dinerId] || 'unknown',
+            restaurantIndex: voted.party.currentRestaurantIndex,
+            seenCount: voted.party.seenRestaurantIds.length,
+            votedAt: voted.party.updatedAt,
           };
 
-          const updatedParty = {
-            ...state.party,
-            votes: updatedVotes,
-            updatedAt: Date.now(),
+          return {
+            ...voted,
+            undoStack: [...state.undoStack, undo].slice(-UNDO_LIMIT),
           };
+        });
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+        if (recorded) {
+          get().flushPendingVotes();
+        }
+        return recorded;
+      },
 
-          return { party: updatedParty };
+      changeVote: (dinerId, restaurantId, status) => {
+        const { party } = get();
+        if (!party || party.matchedRestaurantId || status === 'unknown') return false;
+
+        // Only restaurants that already left the deck
+        if (!party.seenRestaurantIds.includes(restaurantId)) return false;
+
+        let changed = false;
+        set((state) => {
+          const voted = withVote(state, dinerId, restaurantId, status);
+          changed = !!voted;
+          return voted || state;
         });
+
+        if (changed) {
+          get().flushPendingVotes();
+        }
+        return changed;
       },
 
       getVote: (dinerId, restaurantId) => {
@@ -323,21 +1042,126 @@ export const usePartyStore = create<PartyStoreState>()(
         return party?.votes[restaurantId] || {};
       },
 
+      getVetoesRemaining: (dinerId) => {
+        const { party } = get();
+        if (!party) return VETOES_PER_DINER;
+        return Math.max(0, VETOES_PER_DINER - countVetoes(party, dinerId));
+      },
+
       checkForMatch: (restaurantId) => {
         const { party } = get();
         if (!party) return false;
 
-        const votes = party.votes[restaurantId] || {};
-        const allDiners = party.selectedDiners;
+        return meetsConsensus(
+          party.consensus,
+          party.votes[restaurantId] || {},
+          party.selectedDiners
+        );
+      },
 
-        // All diners must have voted 'maybe'
-        for (const diner of allDiners) {
-          if (votes[diner.profileId] !== 'maybe') {
-            return false;
-          }
+      isMatchDecidedByServer: () => getPartyRepository().detectsMatches,
+
+      flushPendingVotes: async () => {
+        const { party, pendingVotes } = get();
+        if (!party || pendingVotes.length === 0 || isFlushingVotes) return;
+
+        // Replayed by the app wrapper once the browser is back online
+        if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+        if (voteRetryTimer) {
+          clearTimeout(voteRetryTimer);
+          voteRetryTimer = null;
+        }
+
+        isFlushingVotes = true;
+        let synced = false;
+        try {
+          await getPartyRepository().saveVotes(party.inviteId, pendingVotes);
+          synced = true;
+        } catch (error) {
+          console.error('Failed to sync votes:', error);
+          voteRetryTimer = setTimeout(() => get().flushPendingVotes(), VOTE_RETRY_MS);
+        } finally {
+          isFlushingVotes = false;
         }
 
-        return allDiners.length > 0;
+        if (!synced) return;
+
+        // Keep anything queued while this batch was in flight
+        set((state) => ({
+          pendingVotes: state.pendingVotes.filter((v) => !pendingVotes.includes(v)),
+        }));
+        if (get().pendingVotes.length > 0) {
+          get().flushPendingVotes();
+        }
+      },
+
+      canUndo: (dinerId) => {
+        const { party, undoStack } = get();
+        const last = undoStack[undoStack.length - 1];
+        if (!party || !last || last.dinerId !== dinerId) return false;
+
+        // A declared match is final
+        if (party.matchedRestaurantId) return false;
+        if (party.status !== 'swiping' && party.status !== 'shortlisting') return false;
+
+        // Voting was restarted since
+        if (party.votingResetAt !== null && last.votedAt < party.votingResetAt) return false;
+
+        // Pass-the-phone: never reach back into the previous diner's turn
+        if (last.restaurantIndex < party.inPersonDinerStartIndex) return false;
+
+        // Only the card right before the current one can come back
+        return party.currentRestaurantIndex === last.restaurantIndex + 1;
+      },
+
+      undoLastSwipe: (dinerId) => {
+        if (!get().canUndo(dinerId)) return false;
+
+        set((state) => {
+          if (!state.party) return state;
+
+          const last = state.undoStack[state.undoStack.length - 1];
+          const now = Date.now();
+
+          const updatedParty = {
+            ...state.party,
+            votes: {
+              ...state.party.votes,
+              [last.restaurantId]: {
+                ...(state.party.votes[last.restaurantId] || {}),
+                [last.dinerId]: last.previousVote,
+              },
+            },
+            currentRestaurantIndex: last.restaurantIndex,
+            seenRestaurantIds: state.party.seenRestaurantIds.slice(0, last.seenCount),
+            updatedAt: now,
+          };
+
+          persistParty(updatedParty);
+
+          // The reverted vote syncs like any other, so it wins over the undone one
+          const pendingVotes = [
+            ...state.pendingVotes.filter(
+              (v) => v.restaurantId !== last.restaurantId || v.dinerId !== last.dinerId
+            ),
+            {
+              restaurantId: last.restaurantId,
+              dinerId: last.dinerId,
+              status: last.previousVote,
+              votedAt: now,
+            },
+          ];
+
+          return {
+            party: updatedParty,
+            pendingVotes,
+            undoStack: state.undoStack.slice(0, -1),
+          };
+        });
+
+        get().flushPendingVotes();
+        return true;
       },
 
       getCurrentInPersonDiner: () => {
@@ -374,12 +1198,7 @@ export const usePartyStore = create<PartyStoreState>()(
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${s.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
@@ -398,12 +1217,7 @@ export const usePartyStore = create<PartyStoreState>()(
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
@@ -418,23 +1232,147 @@ export const usePartyStore = create<PartyStoreState>()(
         return swipedInThisTurn >= roundSize;
       },
 
+      getNearMisses: () => {
+        const { party } = get();
+        if (!party) return [];
+
+        const nearMisses: NearMiss[] = [];
+        for (const restaurant of get().getSeenRestaurants()) {
+          const votes = party.votes[restaurant.id] || {};
+          const votesShort = countVotesShort(party.consensus, votes, party.selectedDiners);
+          if (!votesShort || votesShort > NEAR_MISS_MAX_VOTES_SHORT) continue;
+
+          nearMisses.push({
+            restaurant,
+            votesShort,
+            holdoutIds: getHoldouts(party.consensus, votes, party.selectedDiners).map(
+              (d) => d.profileId
+            ),
+          });
+        }
+
+        return nearMisses.sort((a, b) => a.votesShort - b.votesShort);
+      },
+
+      askToReconsider: (restaurantId) => {
+        const nearMiss = get()
+          .getNearMisses()
+          .find((n) => n.restaurant.id === restaurantId);
+        if (!nearMiss) return;
+
+        set((state) =>
+          nearMiss.holdoutIds.reduce((next, dinerId) => {
+            const queue = next.party?.selectedDiners.find((d) => d.profileId === dinerId)?.reconsider || [];
+            if (queue.includes(restaurantId)) return next;
+            return withDinerChanges(next, dinerId, { reconsider: [...queue, restaurantId] });
+          }, state)
+        );
+      },
+
+      getReconsiderQueue: (dinerId) => {
+        const { party, restaurants } = get();
+        const queue = party?.selectedDiners.find((d) => d.profileId === dinerId)?.reconsider || [];
+        return queue
+          .map((id) => restaurants.find((r) => r.id === id))
+          .filter((r): r is Restaurant => !!r);
+      },
+
+      answerReconsider: (dinerId, restaurantId, status) => {
+        let recorded = false;
+        set((state) => {
+          const voted = withVote(state, dinerId, restaurantId, status);
+          if (!voted) return state;
+          recorded = true;
+
+          // Only an answered card leaves the diner's queue
+          const queue =
+            state.party?.selectedDiners.find((d) => d.profileId === dinerId)?.reconsider || [];
+          return withDinerChanges({ ...state, ...voted }, dinerId, {
+            reconsider: queue.filter((id) => id !== restaurantId),
+          });
+        });
+
+        if (recorded) {
+          get().flushPendingVotes();
+        }
+        return recorded;
+      },
+
+      setApproval: (dinerId, restaurantId, status) => {
+        const { party } = get();
+        if (!party || party.votingMode !== 'approval') return false;
+
+        const diner = party.selectedDiners.find((d) => d.profileId === dinerId);
+        if (!diner || diner.approvalsDone) return false;
+
+        if (status === 'yes' && get().getApprovalsRemaining(dinerId) === 0) return false;
+
+        let changed = false;
+        set((state) => {
+          const voted = withVote(state, dinerId, restaurantId, status);
+          changed = !!voted;
+          return voted || state;
+        });
+
+        if (changed) {
+          get().flushPendingVotes();
+        }
+        return changed;
+      },
+
+      getApprovalsRemaining: (dinerId) => {
+        const { party } = get();
+        if (!party) return 0;
+        return Math.max(0, party.approvalBudget - countApprovals(party, dinerId));
+      },
+
+      finishApprovals: (dinerId) => {
+        set((state) => withDinerChanges(state, dinerId, { approvalsDone: true }));
+      },
+
+      getApprovalTally: () => {
+        const { party, restaurants } = get();
+        if (!party) return [];
+
+        const tally = restaurants
+          .filter((r) => !isRuledOut(party.votes[r.id] || {}, party.selectedDiners))
+          .map((restaurant) => ({
+            restaurant,
+            approvals: party.selectedDiners
+              .filter((d) => party.votes[restaurant.id]?.[d.profileId] === 'yes')
+              .reduce((total, d) => total + getDinerWeight(d), 0),
+          }))
+          .filter((entry) => entry.approvals > 0);
+
+        // Stable sort keeps deck order between ties
+        return tally.sort((a, b) => b.approvals - a.approvals);
+      },
+
+      submitRanking: (dinerId, restaurantIds) => {
+        set((state) => withDinerChanges(state, dinerId, { ranking: restaurantIds }));
+      },
+
+      getRankedChoiceResult: (restaurantIds) => {
+        const { party } = get();
+        if (!party || party.selectedDiners.some((d) => !d.ranking)) return null;
+        return resolveRankedChoice(restaurantIds, party.selectedDiners);
+      },
+
       setMatch: (restaurantId) => {
         set((state) => {
           if (!state.party) return state;
 
+          const party = withStatus(state.party, 'decided');
+          if (!party) return state;
+
           const updatedParty = {
-            ...state.party,
+            ...party,
             matchedRestaurantId: restaurantId,
             matchedAt: Date.now(),
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
           return { party: updatedParty };
         });
@@ -450,36 +1388,44 @@ export const usePartyStore = create<PartyStoreState>()(
         const { party, restaurants } = get();
         if (!party) return [];
 
-        return restaurants.filter((restaurant) => {
+        const shortlist = restaurants.filter((restaurant) => {
           const votes = party.votes[restaurant.id];
           if (!votes) return false;
 
-          // At least one 'maybe' vote
-          return Object.values(votes).some((v) => v === 'maybe');
+          // At least one 'maybe' or 'yes' vote, and nobody vetoed it
+          return (
+            Object.values(votes).some(isPositiveVote) && !isRuledOut(votes, party.selectedDiners)
+          );
         });
+
+        return rankByVotes(party, shortlist);
       },
 
-      getRestaurantsWithUnanimousMaybes: () => {
+      getRestaurantsWithConsensus: () => {
         const { party, restaurants } = get();
         if (!party) return [];
 
-        return restaurants.filter((restaurant) => {
-          const votes = party.votes[restaurant.id];
-          if (!votes) return false;
+        const shortlist = restaurants.filter((restaurant) =>
+          meetsConsensus(party.consensus, party.votes[restaurant.id] || {}, party.selectedDiners)
+        );
 
-          // All diners must have voted 'maybe'
-          for (const diner of party.selectedDiners) {
-            if (votes[diner.profileId] !== 'maybe') {
-              return false;
-            }
-          }
-          return true;
-        });
+        return rankByVotes(party, shortlist);
+      },
+
+      getSeenRestaurants: () => {
+        const { party, restaurants } = get();
+        if (!party) return [];
+
+        const byId = new Map(restaurants.map((r) => [r.id, r]));
+        return [...new Set(party.seenRestaurantIds)]
+          .reverse()
+          .map((id) => byId.get(id))
+          .filter((r): r is Restaurant => !!r);
       },
 
       clearVotesForRestaurant: (restaurantId) => {
         set((state) => {
-          if (!state.party) return state;
+          if (!state.party || isClosed(state.party)) return state;
 
           const updatedVotes = { ...state.party.votes };
           delete updatedVotes[restaurantId];
@@ -490,20 +1436,73 @@ export const usePartyStore = create<PartyStoreState>()(
             updatedAt: Date.now(),
           };
 
-          if (typeof window !== 'undefined') {
-            localStorage.setItem(
-              `${PARTY_STORAGE_KEY}${state.party.inviteId}`,
-              JSON.stringify(updatedParty)
-            );
-          }
+          persistParty(updatedParty);
 
-          return { party: updatedParty };
+          return {
+            party: updatedParty,
+            pendingVotes: state.pendingVotes.filter((v) => v.restaurantId !== restaurantId),
+          };
         });
       },
     }),
     {
       name: 'swipe-to-dine-current-party',
-      partialize: (state) => ({ party: state.party }),
+      version: 5,
+      // Fill in party fields added since the state was saved
+      migrate: (persisted) => {
+        const stored = persisted as Partial<PartyStoreState>;
+        if (stored.party) {
+          stored.party = {
+            ...stored.party,
+            status: stored.party.status ?? (stored.party.matchedRestaurantId ? 'decided' : 'swiping'),
+            deck: stored.party.deck ?? null,
+            consensus: stored.party.consensus ?? DEFAULT_CONSENSUS,
+            votingMode: stored.party.votingMode ?? 'swipe',
+            approvalBudget: stored.party.approvalBudget ?? DEFAULT_APPROVAL_BUDGET,
+            timeBox: stored.party.timeBox ?? null,
+            joinsLocked: stored.party.joinsLocked ?? false,
+            votingResetAt: stored.party.votingResetAt ?? null,
+          };
+        }
+        return stored as PartyStoreState;
+      },
+      partialize: (state) => ({
+        party: state.party,
+        localDinerId: state.localDinerId,
+        isHostDevice: state.isHostDevice,
+        pendingVotes: state.pendingVotes,
+      }),
+      // Restaurants aren't persisted - rebuild them from the party's deck
+      merge: (persisted, current) => {
+        const stored = persisted as Partial<PartyStoreState>;
+        const party = stored.party ?? current.party;
+        return {
+          ...current,
+          ...stored,
+          // Parties saved before decks were shared were always created on this device
+          isHostDevice: stored.isHostDevice ?? !stored.localDinerId,
+          restaurants: party?.deck
+            ? restaurantsFromDeck(party.deck, party.deckOrder)
+            : current.restaurants,
+        };
+      },
     }
   )
 );
+
+// Push edits to party members' own profiles (names, avatars, preferences),
+// which otherwise only go up when their diner entry changes
+useProfileStore.subscribe((state, previous) => {
+  const { party } = usePartyStore.getState();
+  if (!party || state.profiles === previous.profiles) return;
+
+  const isMember = (profileId: string) =>
+    profileId === party.hostProfileId || party.selectedDiners.some((d) => d.profileId === profileId);
+  const edited = state.profiles.some(
+    (profile) => isMember(profile.id) && !previous.profiles.includes(profile)
+  );
+
+  if (edited) {
+    persistParty(party);
+  }
+});
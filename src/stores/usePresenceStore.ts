@@ -0,0 +1,59 @@
+/**
+ * Presence Store
+ *
+ * Live presence for the current party: who is online, which card each
+ * diner is on and when they were last active. Not persisted - it's
+ * rebuilt from the presence tracker (see presenceService) on every load.
+ */
+
+import { create } from 'zustand';
+import { DinerPresence } from '@/types';
+import {
+  getPresenceTracker,
+  DevicePresence,
+  PresenceSession,
+} from '@/services/presenceService';
+
+interface PresenceState {
+  presence: Record<string, DinerPresence>;
+
+  // Actions
+  joinPresence: (inviteId: string) => () => void; // Returns leave
+  updatePresence: (presence: DevicePresence) => void;
+  getPresence: (profileId: string) => DinerPresence | null;
+}
+
+// The party this device is announcing itself in
+let session: PresenceSession | null = null;
+// Latest announcement, replayed when (re)joining
+let latest: DevicePresence | null = null;
+
+export const usePresenceStore = create<PresenceState>()((set, get) => ({
+  presence: {},
+
+  joinPresence: (inviteId) => {
+    session?.leave();
+    set({ presence: {} });
+
+    const current = getPresenceTracker().join(inviteId, (presence) => set({ presence }));
+    session = current;
+    if (latest) {
+      current.update(latest);
+    }
+
+    return () => {
+      current.leave();
+      if (session === current) {
+        session = null;
+        set({ presence: {} });
+      }
+    };
+  },
+
+  updatePresence: (presence) => {
+    latest = presence;
+    session?.update(presence);
+  },
+
+  getPresence: (profileId) => get().presence[profileId] || null,
+}));
@@ -16,7 +16,8 @@ import { Profile, CuisineType, CuisinePreferences } from '@/types';
 import { generateId, generateAvatarSvg } from '@/utils/helpers';
 
 interface ProfileState {
-  profiles: Profile[];
+  profiles: Profile[]; // This device's address book
+  partyProfiles: Profile[]; // Other diners in the current party (not persisted)
   currentProfileId: string | null;
 
   // Actions
@@ -35,12 +36,14 @@ interface ProfileState {
   setAvatar: (profileId: string, avatar: string, type: 'generated' | 'uploaded') => void;
   toggleFavorite: (profileId: string) => void;
   getSortedProfiles: () => Profile[];
+  importProfiles: (profiles: Profile[]) => void; // Profiles from a party snapshot
 }
 
 export const useProfileStore = create<ProfileState>()(
   persist(
     (set, get) => ({
       profiles: [],
+      partyProfiles: [],
       currentProfileId: null,
 
       createProfile: (data) => {
@@ -89,7 +92,11 @@ export const useProfileStore = create<ProfileState>()(
         }),
 
       getProfile: (id) => {
-        return get().profiles.find((profile) => profile.id === id);
+        const { profiles, partyProfiles } = get();
+        return (
+          profiles.find((profile) => profile.id === id) ||
+          partyProfiles.find((profile) => profile.id === id)
+        );
       },
 
       getProfileByPhone: (phone) => {
@@ -151,9 +158,37 @@ export const useProfileStore = create<ProfileState>()(
           return a.name.localeCompare(b.name);
         });
       },
+
+      importProfiles: (incoming) =>
+        set((state) => {
+          if (incoming.length === 0) return state;
+
+          // Address book entries only take the server copy when it's newer
+          // (keeping local favorites), so edits not yet pushed survive
+          const profiles = state.profiles.map((profile) => {
+            const remote = incoming.find((p) => p.id === profile.id);
+            return remote && remote.updatedAt > profile.updatedAt
+              ? { ...remote, isFavorite: profile.isFavorite }
+              : profile;
+          });
+
+          // Everyone else is only kept for this party, out of the address book
+          const partyProfiles = incoming
+            .filter((remote) => !state.profiles.some((p) => p.id === remote.id))
+            .map((remote) => {
+              const known = state.partyProfiles.find((p) => p.id === remote.id);
+              return known && known.updatedAt >= remote.updatedAt ? known : remote;
+            });
+
+          return { profiles, partyProfiles };
+        }),
     }),
     {
       name: 'swipe-to-dine-profiles',
+      partialize: (state) => ({
+        profiles: state.profiles,
+        currentProfileId: state.currentProfileId,
+      }),
     }
   )
 );
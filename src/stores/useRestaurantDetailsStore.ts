@@ -0,0 +1,46 @@
+/**
+ * Restaurant Details Store
+ *
+ * Full restaurant details (hours, summary, reviews, attributes), loaded the
+ * first time a diner expands a card. Not persisted - details are cheap to
+ * fetch again and shouldn't bloat the saved deck.
+ */
+
+import { create } from 'zustand';
+import { Restaurant } from '@/types';
+import { loadRestaurantDetails } from '@/services/restaurantService';
+
+interface RestaurantDetailsState {
+  details: Record<string, Restaurant>;
+  loading: Record<string, boolean>;
+
+  // Actions
+  loadDetails: (restaurant: Restaurant) => Promise<void>;
+  withDetails: (restaurant: Restaurant) => Restaurant; // The restaurant, with details once loaded
+  isLoading: (restaurantId: string) => boolean;
+}
+
+export const useRestaurantDetailsStore = create<RestaurantDetailsState>()((set, get) => ({
+  details: {},
+  loading: {},
+
+  loadDetails: async (restaurant) => {
+    const { details, loading } = get();
+    if (details[restaurant.id] || loading[restaurant.id]) return;
+
+    set({ loading: { ...loading, [restaurant.id]: true } });
+    try {
+      const loaded = await loadRestaurantDetails(restaurant);
+      set((state) => ({ details: { ...state.details, [restaurant.id]: loaded } }));
+    } catch (error) {
+      // Left unloaded, so expanding the card again retries
+      console.error('Failed to load restaurant details:', error);
+    } finally {
+      set((state) => ({ loading: { ...state.loading, [restaurant.id]: false } }));
+    }
+  },
+
+  withDetails: (restaurant) => get().details[restaurant.id] ?? restaurant,
+
+  isLoading: (restaurantId) => !!get().loading[restaurantId],
+}));
@@ -32,6 +32,75 @@ export interface Restaurant {
   phone?: string;
   website?: string;
   hours?: string;
+  /** Which provider the data came from (missing on decks saved before providers) */
+  source?: RestaurantSource;
+  // Only filled in once details are loaded (see loadRestaurantDetails)
+  openingHours?: OpeningHours;
+  editorialSummary?: string;
+  reviews?: RestaurantReview[];
+  attributes?: RestaurantAttributes;
+}
+
+/**
+ * A point in the week: day 0 is Sunday, times are local to the restaurant
+ */
+export interface OpeningTime {
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Regular weekly hours. A period without `close` means open around the clock.
+ */
+export interface OpeningHours {
+  periods: { open: OpeningTime; close?: OpeningTime }[];
+  weekdayDescriptions: string[]; // "Monday: 11:00 AM – 10:00 PM", Monday first
+}
+
+export interface RestaurantReview {
+  author: string;
+  rating: number; // 1 - 5
+  text: string;
+  relativeTime?: string; // "2 weeks ago"
+}
+
+export type RestaurantAttribute =
+  | 'servesVegetarianFood'
+  | 'outdoorSeating'
+  | 'reservable'
+  | 'takeout'
+  | 'delivery'
+  | 'dineIn'
+  | 'goodForGroups'
+  | 'servesCocktails'
+  | 'wheelchairAccessible';
+
+/**
+ * What a restaurant offers; missing means unknown
+ */
+export type RestaurantAttributes = Partial<Record<RestaurantAttribute, boolean>>;
+
+export const RESTAURANT_ATTRIBUTE_LABELS: Record<RestaurantAttribute, string> = {
+  servesVegetarianFood: 'Vegetarian Options',
+  outdoorSeating: 'Outdoor Seating',
+  reservable: 'Reservations',
+  takeout: 'Takeout',
+  delivery: 'Delivery',
+  dineIn: 'Dine-In',
+  goodForGroups: 'Good for Groups',
+  servesCocktails: 'Cocktails',
+  wheelchairAccessible: 'Wheelchair Accessible',
+};
+
+/**
+ * Provenance of a restaurant's data
+ */
+export interface RestaurantSource {
+  provider: string; // RestaurantProvider id, e.g. 'google'
+  externalId: string; // The provider's own ID for the place
+  attribution: string; // Shown with the data, e.g. 'Google Places'
+  fetchedAt: number;
 }
 
 export type PriceLevel = '$' | '$$' | '$$$' | '$$$$';
@@ -162,11 +231,193 @@ export const PREFERENCE_VALUES = [-2, -1, 0, 1, 2];
 
 export type AttendanceMode = 'remote' | 'inPerson'; // 'inPerson' = pass-the-phone mode
 
-export type VoteStatus = 'no' | 'maybe' | 'unknown';
+/**
+ * 'yes' is a strong yes (swipe up); 'veto' is a hard no that keeps a
+ * restaurant off every shortlist, limited to VETOES_PER_DINER per session
+ */
+export type VoteStatus = 'veto' | 'no' | 'maybe' | 'yes' | 'unknown';
+
+// Hard vetoes each diner gets until voting is restarted
+export const VETOES_PER_DINER = 1;
+
+/**
+ * How much each vote counts when ranking the shortlist
+ */
+export const VOTE_WEIGHTS: Record<VoteStatus, number> = {
+  veto: 0,
+  no: 0,
+  unknown: 0,
+  maybe: 1,
+  yes: 2,
+};
+
+/**
+ * Party lifecycle:
+ * draft → gathering → swiping ⇄ shortlisting → decided
+ * Any open party can also become expired or cancelled.
+ */
+export type PartyStatus =
+  | 'draft' // Created, no diners yet
+  | 'gathering' // Diners are being added or joining
+  | 'swiping'
+  | 'shortlisting'
+  | 'decided' // A restaurant was picked
+  | 'expired' // Invite outlived its dinner time
+  | 'cancelled';
+
+/**
+ * Allowed status changes - closed statuses have none
+ */
+export const PARTY_STATUS_TRANSITIONS: Record<PartyStatus, PartyStatus[]> = {
+  draft: ['gathering', 'swiping', 'expired', 'cancelled'],
+  gathering: ['swiping', 'expired', 'cancelled'],
+  swiping: ['shortlisting', 'decided', 'expired', 'cancelled'],
+  shortlisting: ['swiping', 'decided', 'expired', 'cancelled'],
+  decided: [],
+  expired: [],
+  cancelled: [],
+};
+
+/**
+ * When a restaurant counts as agreed on. Positive votes are 'maybe' and
+ * 'yes', and a veto (or an honoree's "no") always blocks a restaurant
+ * whatever the rule. Shares and counts are weighted by diner weight.
+ */
+export type ConsensusPolicy =
+  | { rule: 'unanimous' } // Every diner votes positive
+  | { rule: 'supermajority'; threshold: number } // At least this share of diners (0.5-1)
+  | { rule: 'majority' } // More than half the diners
+  | { rule: 'noVetoes'; minYes: number }; // Everyone voted, nobody vetoed, at least minYes strong yeses
+
+export type ConsensusRule = ConsensusPolicy['rule'];
+
+export const DEFAULT_CONSENSUS: ConsensusPolicy = { rule: 'unanimous' };
+
+export const CONSENSUS_LABELS: Record<ConsensusRule, string> = {
+  unanimous: 'Unanimous',
+  supermajority: 'Supermajority',
+  majority: 'Majority',
+  noVetoes: 'No Vetoes',
+};
+
+/**
+ * How diners vote: swipe through the deck card by card, or spend a budget
+ * of approvals across a grid of the whole deck (quicker for big groups).
+ * Approvals are stored as 'yes' votes.
+ */
+export type VotingMode = 'swipe' | 'approval';
+
+export const VOTING_MODE_LABELS: Record<VotingMode, string> = {
+  swipe: 'Swipe',
+  approval: 'Approvals',
+};
+
+// Approvals each diner gets unless the host changes it
+export const DEFAULT_APPROVAL_BUDGET = 3;
+
+// Groups at least this big are nudged toward approval mode
+export const APPROVAL_MODE_SUGGESTED_DINERS = 8;
+
+/**
+ * Optional deadline for deciding: a number of minutes counted from when
+ * swiping starts (or restarts), or a set time
+ */
+export type TimeBox =
+  | { kind: 'duration'; minutes: number }
+  | { kind: 'clock'; at: number }; // Timestamp
+
+// Durations the host can pick from
+export const TIME_BOX_MINUTES = [5, 10, 15];
+
+/**
+ * A vote cast on this device that the backend hasn't confirmed yet.
+ * Replayed on reconnect; the latest `votedAt` per restaurant and diner wins.
+ */
+export interface PendingVote {
+  restaurantId: string;
+  dinerId: string;
+  status: VoteStatus;
+  votedAt: number;
+}
 
 export interface DinerSelection {
   profileId: string;
   mode: AttendanceMode;
+  /** How much this diner's votes and tastes count (1 when unset) */
+  weight?: number;
+  /** Guest of honor - a "no" from them rules a restaurant out like a veto */
+  honoree?: boolean;
+  /** Ranked-choice ballot: shortlisted restaurant IDs, favorite first */
+  ranking?: string[];
+  /** Done spending approvals (approval mode) */
+  approvalsDone?: boolean;
+  /** Restaurants the group asked this diner to take another look at */
+  reconsider?: string[];
+}
+
+// Weights the host can give a diner
+export const DINER_WEIGHTS = [1, 2, 3];
+
+/**
+ * One instant-runoff round: weighted first choices among the restaurants
+ * still standing, and who was knocked out
+ */
+export interface RankedChoiceRound {
+  tallies: Record<string, number>;
+  eliminatedId: string | null; // Null in the final round
+  /** The elimination was a tie on first choices, broken by Borda score */
+  tiebreak: boolean;
+}
+
+/**
+ * A seen restaurant that fell a vote or two short of consensus
+ */
+export interface NearMiss {
+  restaurant: Restaurant;
+  votesShort: number;
+  /** Diners who didn't vote for it, in party order */
+  holdoutIds: string[];
+}
+
+/**
+ * A price level or cuisine most diners turned down every time they saw it,
+ * so the rest of the deck shows fewer of them
+ */
+export type DeckAdjustment = (
+  | { kind: 'price'; value: PriceLevel }
+  | { kind: 'cuisine'; value: CuisineType }
+) & {
+  rejectedBy: number; // Diners who said no (or vetoed) every time
+  votedOn: number; // Diners who voted on any of them
+};
+
+export interface RankedChoiceResult {
+  winnerId: string;
+  rounds: RankedChoiceRound[];
+  bordaScores: Record<string, number>;
+}
+
+/**
+ * Live presence of a diner - ephemeral, never stored with the party
+ */
+export interface DinerPresence {
+  profileId: string;
+  online: boolean;
+  /** Index of the card the diner is on */
+  cardIndex: number;
+  lastActiveAt: number;
+}
+
+/**
+ * Ranked restaurant deck, snapshotted when the host starts swiping
+ * so every diner sees the same cards in the same order
+ */
+export interface PartyDeck {
+  /** Restaurant IDs in ranked order */
+  restaurantIds: string[];
+  /** Full restaurant payloads by ID */
+  restaurants: Record<string, Restaurant>;
+  createdAt: number;
 }
 
 /**
@@ -177,10 +428,29 @@ export interface DinerSelection {
  */
 export interface PartyState {
   inviteId: string;
+  status: PartyStatus;
   hostProfileId: string | null;
   dateTime: string | null; // ISO string
   filters: DiningFilters;
   selectedDiners: DinerSelection[];
+  /** How many diners need to agree for a match or the shortlist */
+  consensus: ConsensusPolicy;
+  /** Swipe every card, or spend approvals across a grid of the deck */
+  votingMode: VotingMode;
+  /** Approvals each diner can spend in approval mode */
+  approvalBudget: number;
+  /** Deadline for deciding, if any (see getDeadline) */
+  timeBox: TimeBox | null;
+  /** When true, nobody new can join through the invite link */
+  joinsLocked: boolean;
+  /** When the host last restarted voting (devices reset their swipe progress) */
+  votingResetAt: number | null;
+  /** Shared restaurant deck (null until the host starts swiping) */
+  deck: PartyDeck | null;
+  /** Deck order once the host's device re-ranked it from votes (shared) */
+  deckOrder?: string[];
+  /** Why the re-ranked deck shows fewer of some restaurants (shared) */
+  deckAdjustments?: DeckAdjustment[];
   /** Votes by restaurant ID, then by diner ID */
   votes: Record<string, Record<string, VoteStatus>>;
   /** IDs of restaurants that have been shown */
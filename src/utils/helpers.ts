@@ -3,7 +3,22 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { CuisineType, Profile, CuisinePreferences } from '@/types';
+import {
+  CuisineType,
+  Profile,
+  CuisinePreferences,
+  ConsensusPolicy,
+  VoteStatus,
+  DinerSelection,
+  PartyState,
+  Restaurant,
+  DiningFilters,
+  RankedChoiceRound,
+  RankedChoiceResult,
+  DeckAdjustment,
+  OpeningHours,
+  CUISINE_LABELS,
+} from '@/types';
 
 /**
  * Generate a unique ID
@@ -235,6 +250,41 @@ export function debounce<T extends (...args: unknown[]) => unknown>(
   };
 }
 
+// Change in acceleration (m/s², summed over axes) between readings that counts as a shake
+const SHAKE_THRESHOLD = 25;
+const SHAKE_COOLDOWN_MS = 1000;
+
+/**
+ * Call back when the device is shaken. Returns an unsubscribe function
+ * (a no-op where motion events aren't available).
+ */
+export function onShake(callback: () => void): () => void {
+  if (typeof window === 'undefined' || !('DeviceMotionEvent' in window)) {
+    return () => {};
+  }
+
+  let last: { x: number; y: number; z: number } | null = null;
+  let lastShakeAt = 0;
+
+  const handleMotion = (event: DeviceMotionEvent) => {
+    const a = event.accelerationIncludingGravity;
+    if (!a || a.x === null || a.y === null || a.z === null) return;
+
+    if (last) {
+      const change = Math.abs(a.x - last.x) + Math.abs(a.y - last.y) + Math.abs(a.z - last.z);
+      const now = Date.now();
+      if (change > SHAKE_THRESHOLD && now - lastShakeAt > SHAKE_COOLDOWN_MS) {
+        lastShakeAt = now;
+        callback();
+      }
+    }
+    last = { x: a.x, y: a.y, z: a.z };
+  };
+
+  window.addEventListener('devicemotion', handleMotion);
+  return () => window.removeEventListener('devicemotion', handleMotion);
+}
+
 /**
  * Format date for display
  */
@@ -251,6 +301,309 @@ export function formatDateTime(isoString: string | null): string {
   });
 }
 
+/**
+ * Whether a restaurant passes the party's dining filters
+ */
+export function matchesFilters(restaurant: Restaurant, filters: DiningFilters): boolean {
+  if (restaurant.rating < filters.minRating) return false;
+  if (restaurant.distanceMiles > filters.maxDistance) return false;
+
+  // Price and cuisine only filter when something is selected
+  if (filters.priceRange.length > 0 && !filters.priceRange.includes(restaurant.priceLevel)) {
+    return false;
+  }
+  if (filters.familyFriendly !== null && restaurant.familyFriendly !== filters.familyFriendly) {
+    return false;
+  }
+  if (
+    filters.cuisineTypes.length > 0 &&
+    !restaurant.cuisines.some((c) => filters.cuisineTypes.includes(c))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Straight-line distance between two coordinates in miles
+ */
+export function calculateDistanceMiles(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const R = 3959; // Earth's radius in miles
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+/**
+ * Whether weekly hours have a place open at a time (in the device's time
+ * zone, which is the restaurant's for anyone nearby)
+ */
+export function isOpenAt(hours: OpeningHours, date = new Date()): boolean {
+  const minutesPerWeek = 7 * 24 * 60;
+  const toMinutes = ({ day, hour, minute }: { day: number; hour: number; minute: number }) =>
+    (day * 24 + hour) * 60 + minute;
+  const now = toMinutes({ day: date.getDay(), hour: date.getHours(), minute: date.getMinutes() });
+
+  return hours.periods.some(({ open, close }) => {
+    if (!close) return true; // Open around the clock
+    const start = toMinutes(open);
+    // Periods running past Saturday night wrap into next week
+    const end = toMinutes(close) <= start ? toMinutes(close) + minutesPerWeek : toMinutes(close);
+    return (now >= start && now < end) || (now + minutesPerWeek >= start && now + minutesPerWeek < end);
+  });
+}
+
+/**
+ * Whether a vote counts toward agreement ('maybe' or a strong 'yes')
+ */
+export function isPositiveVote(status: VoteStatus | undefined): boolean {
+  return status === 'maybe' || status === 'yes';
+}
+
+/**
+ * How much a diner's votes and tastes count
+ */
+export function getDinerWeight(diner: DinerSelection | undefined): number {
+  return diner?.weight ?? 1;
+}
+
+/**
+ * Whether any diner vetoed a restaurant (an honoree's "no" counts as a veto)
+ */
+export function isRuledOut(
+  votes: Record<string, VoteStatus>,
+  diners: DinerSelection[]
+): boolean {
+  return diners.some((d) => {
+    const status = votes[d.profileId];
+    return status === 'veto' || (d.honoree === true && status === 'no');
+  });
+}
+
+/**
+ * Whether the diners' votes on one restaurant satisfy a consensus policy.
+ * Share-based rules are checked against every diner (not just those who
+ * voted), so a restaurant can reach consensus before the last votes are in.
+ */
+export function meetsConsensus(
+  policy: ConsensusPolicy,
+  votes: Record<string, VoteStatus>,
+  diners: DinerSelection[]
+): boolean {
+  if (diners.length === 0 || isRuledOut(votes, diners)) return false;
+
+  const weightWhere = (matches: (status: VoteStatus) => boolean) =>
+    diners
+      .filter((d) => matches(votes[d.profileId] || 'unknown'))
+      .reduce((total, d) => total + getDinerWeight(d), 0);
+
+  const totalWeight = weightWhere(() => true);
+  const positiveWeight = weightWhere(isPositiveVote);
+
+  switch (policy.rule) {
+    case 'unanimous':
+      return positiveWeight === totalWeight;
+    case 'supermajority':
+      return positiveWeight / totalWeight >= policy.threshold;
+    case 'majority':
+      return positiveWeight > totalWeight / 2;
+    case 'noVetoes':
+      return (
+        weightWhere((s) => s === 'unknown') === 0 &&
+        weightWhere((s) => s === 'yes') >= Math.min(policy.minYes, totalWeight)
+      );
+  }
+}
+
+/**
+ * Diners holding a restaurant back from consensus: anyone without a
+ * positive vote (or without a strong yes, for the noVetoes rule)
+ */
+export function getHoldouts(
+  policy: ConsensusPolicy,
+  votes: Record<string, VoteStatus>,
+  diners: DinerSelection[]
+): DinerSelection[] {
+  return diners.filter((d) =>
+    policy.rule === 'noVetoes' ? votes[d.profileId] !== 'yes' : !isPositiveVote(votes[d.profileId])
+  );
+}
+
+/**
+ * How many holdouts would have to come around for a restaurant to reach
+ * consensus, heaviest first. 0 if it already has; null if it's ruled out
+ * or can't get there.
+ */
+export function countVotesShort(
+  policy: ConsensusPolicy,
+  votes: Record<string, VoteStatus>,
+  diners: DinerSelection[]
+): number | null {
+  if (diners.length === 0 || isRuledOut(votes, diners)) return null;
+  if (meetsConsensus(policy, votes, diners)) return 0;
+
+  const comeAround: VoteStatus = policy.rule === 'noVetoes' ? 'yes' : 'maybe';
+  const holdouts = getHoldouts(policy, votes, diners).sort(
+    (a, b) => getDinerWeight(b) - getDinerWeight(a)
+  );
+
+  const flipped = { ...votes };
+  for (let i = 0; i < holdouts.length; i++) {
+    flipped[holdouts[i].profileId] = comeAround;
+    if (meetsConsensus(policy, flipped, diners)) return i + 1;
+  }
+  return null;
+}
+
+/**
+ * When a party's time box runs out. A duration counts from when swiping
+ * started (or was last restarted), so it's null until there's a deck.
+ */
+export function getDeadline(party: PartyState): number | null {
+  const { timeBox } = party;
+  if (!timeBox) return null;
+  if (timeBox.kind === 'clock') return timeBox.at;
+  if (!party.deck) return null;
+
+  const startedAt = Math.max(party.deck.createdAt, party.votingResetAt ?? 0);
+  return startedAt + timeBox.minutes * 60 * 1000;
+}
+
+/**
+ * Format the time left on a countdown as m:ss (h:mm:ss past an hour)
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Describe a consensus policy in a short sentence
+ */
+export function describeConsensus(policy: ConsensusPolicy): string {
+  switch (policy.rule) {
+    case 'unanimous':
+      return 'Everyone has to say yes';
+    case 'supermajority':
+      return `At least ${Math.round(policy.threshold * 100)}% have to say yes`;
+    case 'majority':
+      return 'More than half have to say yes';
+    case 'noVetoes':
+      return `Nobody vetoes it and at least ${policy.minYes} ${
+        policy.minYes === 1 ? 'diner gives' : 'diners give'
+      } it a strong yes`;
+  }
+}
+
+/**
+ * Explain a deck adjustment, e.g. "Showing fewer Japanese places because 3 of 4 said no"
+ */
+export function describeDeckAdjustment(adjustment: DeckAdjustment): string {
+  const places =
+    adjustment.kind === 'price'
+      ? `${adjustment.value} places`
+      : `${CUISINE_LABELS[adjustment.value]} places`;
+  const who =
+    adjustment.rejectedBy === adjustment.votedOn
+      ? adjustment.votedOn === 1
+        ? 'it got a no'
+        : `all ${adjustment.votedOn} said no`
+      : `${adjustment.rejectedBy} of ${adjustment.votedOn} said no`;
+  return `Showing fewer ${places} because ${who}`;
+}
+
+/**
+ * Resolve ranked-choice ballots by instant runoff. Each round counts every
+ * ballot (weighted by diner) for its favorite restaurant still standing; one
+ * with more than half of those wins, otherwise the one with the fewest is
+ * knocked out. A tie for fewest knocks out the lowest Borda score, then the
+ * restaurant listed later in `candidateIds`.
+ */
+export function resolveRankedChoice(
+  candidateIds: string[],
+  diners: DinerSelection[]
+): RankedChoiceResult | null {
+  if (candidateIds.length === 0) return null;
+
+  // Ballots only count restaurants that are still candidates
+  const ballots = diners.map((d) => ({
+    ranking: (d.ranking || []).filter((id) => candidateIds.includes(id)),
+    weight: getDinerWeight(d),
+  }));
+
+  // Borda: n-1 points for a favorite down to 0 for the last place
+  const bordaScores: Record<string, number> = Object.fromEntries(candidateIds.map((id) => [id, 0]));
+  for (const ballot of ballots) {
+    ballot.ranking.forEach((id, index) => {
+      bordaScores[id] += (candidateIds.length - 1 - index) * ballot.weight;
+    });
+  }
+
+  const standing = [...candidateIds];
+  const rounds: RankedChoiceRound[] = [];
+
+  for (;;) {
+    const tallies: Record<string, number> = Object.fromEntries(standing.map((id) => [id, 0]));
+    let counted = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.ranking.find((id) => standing.includes(id));
+      if (choice) {
+        tallies[choice] += ballot.weight;
+        counted += ballot.weight;
+      }
+    }
+
+    const leader = standing.reduce((best, id) => (tallies[id] > tallies[best] ? id : best));
+    if (standing.length === 1 || tallies[leader] > counted / 2) {
+      rounds.push({ tallies, eliminatedId: null, tiebreak: false });
+      return { winnerId: leader, rounds, bordaScores };
+    }
+
+    const fewest = Math.min(...standing.map((id) => tallies[id]));
+    const lowest = standing.filter((id) => tallies[id] === fewest);
+    const eliminatedId = lowest.reduce((out, id) =>
+      bordaScores[id] <= bordaScores[out] ? id : out
+    );
+
+    rounds.push({ tallies, eliminatedId, tiebreak: lowest.length > 1 });
+    standing.splice(standing.indexOf(eliminatedId), 1);
+  }
+}
+
+/**
+ * Format a timestamp relative to now (e.g. "just now", "5m ago", "2h ago")
+ */
+export function formatTimeAgo(timestamp: number): string {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return 'just now';
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
 /**
  * Get preference emoji for a value
  */
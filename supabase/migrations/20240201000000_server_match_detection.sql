@@ -0,0 +1,106 @@
+-- Swipe to Dine - Server-Authoritative Match Detection
+-- Matches are declared by the database instead of by whichever client
+-- happens to have the freshest snapshot, so concurrent votes can't race.
+
+-- ============================================================================
+-- Unanimity check on every vote
+-- A party matches when every diner has voted 'maybe' on the same restaurant.
+-- parties.matched_restaurant_id is only ever set once.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  ondeck_count INTEGER;
+  maybe_count INTEGER;
+BEGIN
+  IF NEW.vote <> 'maybe' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = NEW.party_id FOR UPDATE;
+
+  IF party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode = 'onDeck')
+  INTO diner_count, ondeck_count
+  FROM party_diners
+  WHERE party_id = NEW.party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR ondeck_count > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = NEW.party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO maybe_count
+  FROM party_diners d
+  JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = NEW.restaurant_id
+  WHERE d.party_id = NEW.party_id
+    AND v.vote = 'maybe';
+
+  IF maybe_count = diner_count THEN
+    -- The update is picked up by Supabase Realtime and broadcast to every device
+    UPDATE parties
+    SET matched_restaurant_id = NEW.restaurant_id,
+        matched_at = NOW()
+    WHERE id = NEW.party_id
+      AND matched_restaurant_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER detect_party_match_on_vote
+  AFTER INSERT OR UPDATE OF vote ON party_votes
+  FOR EACH ROW EXECUTE FUNCTION detect_party_match();
+
+-- ============================================================================
+-- Manual picks (wheel, shortlist, elimination)
+-- Claims the match only if nobody has matched yet and returns whichever
+-- restaurant the party is matched on afterwards.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION claim_party_match(
+  p_invite_id TEXT,
+  p_restaurant_id TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  result TEXT;
+BEGIN
+  UPDATE parties
+  SET matched_restaurant_id = p_restaurant_id,
+      matched_at = NOW()
+  WHERE invite_id = p_invite_id
+    AND matched_restaurant_id IS NULL;
+
+  SELECT matched_restaurant_id INTO result
+  FROM parties
+  WHERE invite_id = p_invite_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,104 @@
+-- Swipe to Dine - Reconcile Schema With App Model
+-- Brings the schema in line with src/types/index.ts so every Profile and
+-- PartyState the app produces can be stored and read back unchanged.
+
+-- ============================================================================
+-- Enums
+-- ============================================================================
+
+-- The app calls pass-the-phone mode 'inPerson'
+ALTER TYPE attendance_mode RENAME VALUE 'onDeck' TO 'inPerson';
+
+-- Votes can be explicitly reset to 'unknown'
+ALTER TYPE vote_status ADD VALUE IF NOT EXISTS 'unknown';
+
+-- ============================================================================
+-- Profiles
+-- ============================================================================
+
+-- Profiles don't collect an age
+ALTER TABLE profiles ALTER COLUMN age DROP NOT NULL;
+
+ALTER TABLE profiles
+  ADD COLUMN is_favorite BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- Parties
+-- ============================================================================
+
+ALTER TABLE parties
+  RENAME COLUMN current_ondeck_diner_index TO current_in_person_diner_index;
+
+ALTER TABLE parties
+  ADD COLUMN in_person_diner_start_index INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN seen_restaurant_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================================================
+-- Match detection
+-- Recreated so the pass-the-phone check uses the renamed enum value
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  in_person_count INTEGER;
+  maybe_count INTEGER;
+BEGIN
+  IF NEW.vote::TEXT <> 'maybe' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = NEW.party_id FOR UPDATE;
+
+  IF party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode::TEXT = 'inPerson')
+  INTO diner_count, in_person_count
+  FROM party_diners
+  WHERE party_id = NEW.party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR in_person_count > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = NEW.party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO maybe_count
+  FROM party_diners d
+  JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = NEW.restaurant_id
+  WHERE d.party_id = NEW.party_id
+    AND v.vote::TEXT = 'maybe';
+
+  IF maybe_count = diner_count THEN
+    -- The update is picked up by Supabase Realtime and broadcast to every device
+    UPDATE parties
+    SET matched_restaurant_id = NEW.restaurant_id,
+        matched_at = NOW()
+    WHERE id = NEW.party_id
+      AND matched_restaurant_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
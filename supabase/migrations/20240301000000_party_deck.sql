@@ -0,0 +1,8 @@
+-- Swipe to Dine - Shared Restaurant Deck
+-- The host's ranked deck is stored with the party so every diner swipes
+-- the same restaurants in the same order, even after a refresh.
+
+-- { restaurantIds: string[], restaurants: { [id]: Restaurant }, createdAt: number }
+-- NULL until the host starts swiping
+ALTER TABLE parties
+  ADD COLUMN deck JSONB;
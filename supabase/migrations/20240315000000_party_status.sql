@@ -0,0 +1,41 @@
+-- Swipe to Dine - Party Lifecycle Status
+-- draft → gathering → swiping ⇄ shortlisting → decided, or expired/cancelled.
+-- Transitions are enforced by the app's party store; the database only makes
+-- sure a matched party always reads as decided.
+
+CREATE TYPE party_status AS ENUM (
+  'draft',
+  'gathering',
+  'swiping',
+  'shortlisting',
+  'decided',
+  'expired',
+  'cancelled'
+);
+
+ALTER TABLE parties
+  ADD COLUMN status party_status NOT NULL DEFAULT 'draft';
+
+-- Existing parties predate the lifecycle
+UPDATE parties
+SET status = CASE WHEN matched_restaurant_id IS NULL THEN 'swiping' ELSE 'decided' END::party_status;
+
+-- ============================================================================
+-- Matches decide the party
+-- Covers the match trigger and claim_party_match, and keeps a client
+-- that writes a stale status from reopening a decided party.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mark_party_decided()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.matched_restaurant_id IS NOT NULL THEN
+    NEW.status := 'decided';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER mark_party_decided_on_update
+  BEFORE UPDATE ON parties
+  FOR EACH ROW EXECUTE FUNCTION mark_party_decided();
@@ -0,0 +1,7 @@
+-- Swipe to Dine - Host Controls
+-- Lets the host lock the invite link and restart voting for everyone.
+
+ALTER TABLE parties
+  ADD COLUMN joins_locked BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Devices reset their own swipe progress when this changes
+  ADD COLUMN voting_reset_at TIMESTAMPTZ;
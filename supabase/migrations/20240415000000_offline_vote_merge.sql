@@ -0,0 +1,41 @@
+-- Swipe to Dine - Offline Vote Merge
+-- Votes cast offline are replayed later with the time they were cast.
+-- Each (party, diner, restaurant) keeps whichever vote was cast last, so
+-- replaying an old vote can never overwrite a newer one.
+
+-- ============================================================================
+-- Last-writer-wins vote merge
+-- p_votes: [{ "profile_id", "restaurant_id", "vote", "voted_at" }, ...]
+-- Votes cast before the host last restarted voting are dropped.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_party_votes(
+  p_invite_id TEXT,
+  p_votes JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+BEGIN
+  SELECT * INTO party_row FROM parties WHERE invite_id = p_invite_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Party % not found', p_invite_id;
+  END IF;
+
+  INSERT INTO party_votes (party_id, profile_id, restaurant_id, vote, voted_at)
+  SELECT party_row.id, v.profile_id, v.restaurant_id, v.vote, v.voted_at
+  FROM jsonb_to_recordset(p_votes) AS v(
+    profile_id UUID,
+    restaurant_id TEXT,
+    vote vote_status,
+    voted_at TIMESTAMPTZ
+  )
+  WHERE party_row.voting_reset_at IS NULL
+     OR v.voted_at >= party_row.voting_reset_at
+  ON CONFLICT (party_id, profile_id, restaurant_id) DO UPDATE
+  SET vote = EXCLUDED.vote,
+      voted_at = EXCLUDED.voted_at
+  WHERE party_votes.voted_at < EXCLUDED.voted_at;
+END;
+$$ LANGUAGE plpgsql;
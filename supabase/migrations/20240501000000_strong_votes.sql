@@ -0,0 +1,81 @@
+-- Swipe to Dine - Strong Yes and Veto Votes
+-- 'yes' is a strong yes and counts toward a match like 'maybe'.
+-- 'veto' is a hard no; the per-diner limit is enforced by the app.
+
+-- ============================================================================
+-- Enums
+-- ============================================================================
+
+ALTER TYPE vote_status ADD VALUE IF NOT EXISTS 'yes';
+ALTER TYPE vote_status ADD VALUE IF NOT EXISTS 'veto';
+
+-- ============================================================================
+-- Match detection
+-- Recreated so strong yeses count toward the match. Votes are compared as
+-- text because new enum values can't be used in the transaction adding them.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  in_person_count INTEGER;
+  positive_count INTEGER;
+BEGIN
+  IF NEW.vote::TEXT NOT IN ('maybe', 'yes') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = NEW.party_id FOR UPDATE;
+
+  IF party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode::TEXT = 'inPerson')
+  INTO diner_count, in_person_count
+  FROM party_diners
+  WHERE party_id = NEW.party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR in_person_count > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = NEW.party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO positive_count
+  FROM party_diners d
+  JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = NEW.restaurant_id
+  WHERE d.party_id = NEW.party_id
+    AND v.vote::TEXT IN ('maybe', 'yes');
+
+  IF positive_count = diner_count THEN
+    -- The update is picked up by Supabase Realtime and broadcast to every device
+    UPDATE parties
+    SET matched_restaurant_id = NEW.restaurant_id,
+        matched_at = NOW()
+    WHERE id = NEW.party_id
+      AND matched_restaurant_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
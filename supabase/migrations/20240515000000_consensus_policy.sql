@@ -0,0 +1,105 @@
+-- Swipe to Dine - Consensus Policy
+-- Each party picks how many diners need to agree before a restaurant is a
+-- match. Mirrors meetsConsensus in src/utils/helpers.ts:
+--   { "rule": "unanimous" }
+--   { "rule": "supermajority", "threshold": 0.75 }
+--   { "rule": "majority" }
+--   { "rule": "noVetoes", "minYes": 2 }
+-- A veto always blocks a restaurant, whatever the rule.
+
+ALTER TABLE parties
+  ADD COLUMN consensus JSONB NOT NULL DEFAULT '{"rule": "unanimous"}';
+
+-- ============================================================================
+-- Match detection
+-- Recreated to apply the party's policy. Any cast vote can complete a
+-- match now ("noVetoes" waits for everyone, including 'no' votes).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  in_person_count INTEGER;
+  voted_count INTEGER;
+  positive_count INTEGER;
+  yes_count INTEGER;
+  veto_count INTEGER;
+  is_match BOOLEAN;
+BEGIN
+  IF NEW.vote::TEXT IN ('unknown', 'veto') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = NEW.party_id FOR UPDATE;
+
+  IF party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode::TEXT = 'inPerson')
+  INTO diner_count, in_person_count
+  FROM party_diners
+  WHERE party_id = NEW.party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR in_person_count > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = NEW.party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE v.vote::TEXT <> 'unknown'),
+    COUNT(*) FILTER (WHERE v.vote::TEXT IN ('maybe', 'yes')),
+    COUNT(*) FILTER (WHERE v.vote::TEXT = 'yes'),
+    COUNT(*) FILTER (WHERE v.vote::TEXT = 'veto')
+  INTO voted_count, positive_count, yes_count, veto_count
+  FROM party_diners d
+  JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = NEW.restaurant_id
+  WHERE d.party_id = NEW.party_id;
+
+  IF veto_count > 0 THEN
+    RETURN NEW;
+  END IF;
+
+  is_match := CASE party_row.consensus->>'rule'
+    WHEN 'supermajority' THEN
+      positive_count::NUMERIC / diner_count >= (party_row.consensus->>'threshold')::NUMERIC
+    WHEN 'majority' THEN
+      positive_count * 2 > diner_count
+    WHEN 'noVetoes' THEN
+      voted_count = diner_count
+      AND yes_count >= LEAST((party_row.consensus->>'minYes')::INTEGER, diner_count)
+    ELSE
+      positive_count = diner_count
+  END;
+
+  IF is_match THEN
+    -- The update is picked up by Supabase Realtime and broadcast to every device
+    UPDATE parties
+    SET matched_restaurant_id = NEW.restaurant_id,
+        matched_at = NOW()
+    WHERE id = NEW.party_id
+      AND matched_restaurant_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,7 @@
+-- Swipe to Dine - Ranked Choice
+-- Each diner can rank the shortlist for a final instant-runoff vote.
+-- Ballots are resolved on every device (see resolveRankedChoice in
+-- src/utils/helpers.ts); the winner is claimed with claim_party_match.
+
+ALTER TABLE party_diners
+  ADD COLUMN ranking TEXT[];
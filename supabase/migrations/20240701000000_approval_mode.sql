@@ -0,0 +1,114 @@
+-- Swipe to Dine - Approval Mode
+-- Big groups can skip swiping: each diner spends a budget of approvals
+-- (stored as 'yes' votes) across a grid of the deck, and the most approved
+-- restaurant nobody vetoed wins once everyone is done. The winner is
+-- claimed by the app with claim_party_match, so instant matching is off.
+
+ALTER TABLE parties
+  ADD COLUMN voting_mode TEXT NOT NULL DEFAULT 'swipe'
+    CHECK (voting_mode IN ('swipe', 'approval')),
+  ADD COLUMN approval_budget INTEGER NOT NULL DEFAULT 3 CHECK (approval_budget > 0);
+
+ALTER TABLE party_diners
+  ADD COLUMN approvals_done BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ============================================================================
+-- Match detection
+-- Recreated to leave approval sessions alone
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  in_person_count INTEGER;
+  total_weight NUMERIC;
+  unvoted_weight NUMERIC;
+  positive_weight NUMERIC;
+  yes_weight NUMERIC;
+  ruled_out BOOLEAN;
+  is_match BOOLEAN;
+BEGIN
+  IF NEW.vote::TEXT IN ('unknown', 'veto') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = NEW.party_id FOR UPDATE;
+
+  IF party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Approval sessions are decided once every diner has spent their approvals
+  IF party_row.voting_mode = 'approval' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode::TEXT = 'inPerson')
+  INTO diner_count, in_person_count
+  FROM party_diners
+  WHERE party_id = NEW.party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR in_person_count > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = NEW.party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Diners without a vote count as 'unknown'
+  SELECT
+    SUM(d.weight),
+    COALESCE(SUM(d.weight) FILTER (WHERE COALESCE(v.vote::TEXT, 'unknown') = 'unknown'), 0),
+    COALESCE(SUM(d.weight) FILTER (WHERE v.vote::TEXT IN ('maybe', 'yes')), 0),
+    COALESCE(SUM(d.weight) FILTER (WHERE v.vote::TEXT = 'yes'), 0),
+    COALESCE(BOOL_OR(v.vote::TEXT = 'veto' OR (d.honoree AND v.vote::TEXT = 'no')), FALSE)
+  INTO total_weight, unvoted_weight, positive_weight, yes_weight, ruled_out
+  FROM party_diners d
+  LEFT JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = NEW.restaurant_id
+  WHERE d.party_id = NEW.party_id;
+
+  IF ruled_out THEN
+    RETURN NEW;
+  END IF;
+
+  is_match := CASE party_row.consensus->>'rule'
+    WHEN 'supermajority' THEN
+      positive_weight / total_weight >= (party_row.consensus->>'threshold')::NUMERIC
+    WHEN 'majority' THEN
+      positive_weight * 2 > total_weight
+    WHEN 'noVetoes' THEN
+      unvoted_weight = 0
+      AND yes_weight >= LEAST((party_row.consensus->>'minYes')::NUMERIC, total_weight)
+    ELSE
+      positive_weight = total_weight
+  END;
+
+  IF is_match THEN
+    -- The update is picked up by Supabase Realtime and broadcast to every device
+    UPDATE parties
+    SET matched_restaurant_id = NEW.restaurant_id,
+        matched_at = NOW()
+    WHERE id = NEW.party_id
+      AND matched_restaurant_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+-- Swipe to Dine - Reconsider Queue
+-- Restaurants that fell a vote or two short of consensus can be sent
+-- back to just the diners who held out (see getNearMisses in the party store).
+
+ALTER TABLE party_diners
+  ADD COLUMN reconsider TEXT[] NOT NULL DEFAULT '{}';
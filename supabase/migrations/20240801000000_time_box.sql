@@ -0,0 +1,9 @@
+-- Swipe to Dine - Time-Boxed Swiping
+-- An optional deadline for deciding. Mirrors TimeBox in src/types/index.ts:
+--   { "kind": "duration", "minutes": 5 }   (counted from when swiping starts)
+--   { "kind": "clock", "at": 1722540600000 }   (epoch milliseconds)
+-- When it runs out the app moves everyone to the shortlist, or claims the
+-- closest near miss with claim_party_match.
+
+ALTER TABLE parties
+  ADD COLUMN time_box JSONB;
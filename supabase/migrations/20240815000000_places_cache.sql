@@ -0,0 +1,19 @@
+-- Swipe to Dine - Places Search Cache
+-- Cached /api/places/search results (PLACES_CACHE=supabase), so repeat
+-- searches of the same area don't call Google again. The key is built by
+-- placesCacheKey in src/services/placesCache.ts from the rounded location,
+-- radius, cuisine terms, price range and result limit.
+
+CREATE TABLE places_cache (
+  key TEXT PRIMARY KEY,
+  restaurants JSONB NOT NULL,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_places_cache_expires_at ON places_cache(expires_at);
+
+-- No policies on purpose: only the server's service-role key (which bypasses
+-- RLS) may read or write cached results. With the anon key anyone could
+-- plant fake restaurants that every party would then be served.
+ALTER TABLE places_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,10 @@
+-- Swipe to Dine - Shared Deck Order
+-- The host's device re-ranks the rest of the deck from votes (see adaptDeck
+-- in the party store) and every device applies the same order, so diners
+-- keep seeing the same cards in the same order.
+--   deck_order: restaurant IDs in the re-ranked order (NULL = deck order)
+--   deck_adjustments: why, mirrors DeckAdjustment[] in src/types/index.ts
+
+ALTER TABLE parties
+  ADD COLUMN deck_order TEXT[],
+  ADD COLUMN deck_adjustments JSONB;
@@ -0,0 +1,186 @@
+-- Swipe to Dine - Match Detection Follows the Party
+-- Matching used to run only on vote writes and ignored the party's status,
+-- so a vote landing after the party was decided, expired or cancelled could
+-- still match, and loosening the consensus policy or removing a holdout
+-- diner left an already-agreed restaurant unmatched until someone voted on
+-- it again.
+--   check_party_match: the old trigger body, for one party and restaurant
+--   check_party_matches: runs it over every restaurant the party voted for
+-- Both do nothing unless the party is swiping or shortlisting.
+
+-- ============================================================================
+-- Match detection
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_party_match(
+  p_party_id UUID,
+  p_restaurant_id TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  party_row parties%ROWTYPE;
+  diner_count INTEGER;
+  in_person_count INTEGER;
+  total_weight NUMERIC;
+  unvoted_weight NUMERIC;
+  positive_weight NUMERIC;
+  yes_weight NUMERIC;
+  ruled_out BOOLEAN;
+  is_match BOOLEAN;
+BEGIN
+  -- Lock the party so concurrent votes are evaluated one at a time;
+  -- the second transaction then sees the first one's committed vote
+  SELECT * INTO party_row FROM parties WHERE id = p_party_id FOR UPDATE;
+
+  IF NOT FOUND OR party_row.matched_restaurant_id IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Drafts haven't started and decided, expired or cancelled parties are over
+  IF party_row.status NOT IN ('swiping', 'shortlisting') THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Approval sessions are decided once every diner has spent their approvals
+  IF party_row.voting_mode = 'approval' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE mode::TEXT = 'inPerson')
+  INTO diner_count, in_person_count
+  FROM party_diners
+  WHERE party_id = p_party_id;
+
+  -- Pass-the-phone groups build a shortlist instead of matching instantly
+  IF diner_count = 0 OR in_person_count > 1 THEN
+    RETURN FALSE;
+  END IF;
+
+  -- "Just Browsing" sessions never match
+  IF diner_count = 1 AND EXISTS (
+    SELECT 1
+    FROM party_diners d
+    JOIN profiles p ON p.id = d.profile_id
+    WHERE d.party_id = p_party_id AND p.name = 'Just Browsing'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Diners without a vote count as 'unknown'
+  SELECT
+    SUM(d.weight),
+    COALESCE(SUM(d.weight) FILTER (WHERE COALESCE(v.vote::TEXT, 'unknown') = 'unknown'), 0),
+    COALESCE(SUM(d.weight) FILTER (WHERE v.vote::TEXT IN ('maybe', 'yes')), 0),
+    COALESCE(SUM(d.weight) FILTER (WHERE v.vote::TEXT = 'yes'), 0),
+    COALESCE(BOOL_OR(v.vote::TEXT = 'veto' OR (d.honoree AND v.vote::TEXT = 'no')), FALSE)
+  INTO total_weight, unvoted_weight, positive_weight, yes_weight, ruled_out
+  FROM party_diners d
+  LEFT JOIN party_votes v
+    ON v.party_id = d.party_id
+   AND v.profile_id = d.profile_id
+   AND v.restaurant_id = p_restaurant_id
+  WHERE d.party_id = p_party_id;
+
+  IF ruled_out THEN
+    RETURN FALSE;
+  END IF;
+
+  is_match := CASE party_row.consensus->>'rule'
+    WHEN 'supermajority' THEN
+      positive_weight / total_weight >= (party_row.consensus->>'threshold')::NUMERIC
+    WHEN 'majority' THEN
+      positive_weight * 2 > total_weight
+    WHEN 'noVetoes' THEN
+      unvoted_weight = 0
+      AND yes_weight >= LEAST((party_row.consensus->>'minYes')::NUMERIC, total_weight)
+    ELSE
+      positive_weight = total_weight
+  END;
+
+  IF NOT is_match THEN
+    RETURN FALSE;
+  END IF;
+
+  -- The update is picked up by Supabase Realtime and broadcast to every device
+  UPDATE parties
+  SET matched_restaurant_id = p_restaurant_id,
+      matched_at = NOW()
+  WHERE id = p_party_id
+    AND matched_restaurant_id IS NULL;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Restaurants are tried in the order they were first voted on, so the
+-- earliest one everyone agrees on wins
+CREATE OR REPLACE FUNCTION check_party_matches(p_party_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  candidate TEXT;
+BEGIN
+  FOR candidate IN
+    SELECT restaurant_id
+    FROM party_votes
+    WHERE party_id = p_party_id
+    GROUP BY restaurant_id
+    HAVING BOOL_OR(vote::TEXT IN ('maybe', 'yes'))
+    ORDER BY MIN(voted_at)
+  LOOP
+    IF check_party_match(p_party_id, candidate) THEN
+      RETURN TRUE;
+    END IF;
+  END LOOP;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Triggers
+-- detect_party_match_on_vote keeps calling detect_party_match, now a wrapper
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION detect_party_match()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.vote::TEXT NOT IN ('unknown', 'veto') THEN
+    PERFORM check_party_match(NEW.party_id, NEW.restaurant_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A new consensus policy or voting mode can turn votes already cast into a match
+CREATE OR REPLACE FUNCTION redetect_party_match_on_party_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM check_party_matches(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Clients upsert the whole row, so only fire when the values actually change
+CREATE TRIGGER redetect_party_match_on_policy_change
+  AFTER UPDATE OF consensus, voting_mode ON parties
+  FOR EACH ROW
+  WHEN (
+    OLD.consensus IS DISTINCT FROM NEW.consensus
+    OR OLD.voting_mode IS DISTINCT FROM NEW.voting_mode
+  )
+  EXECUTE FUNCTION redetect_party_match_on_party_change();
+
+-- Without the removed diner, the rest of the party may already agree
+CREATE OR REPLACE FUNCTION redetect_party_match_on_diner_removed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM check_party_matches(OLD.party_id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER redetect_party_match_on_diner_delete
+  AFTER DELETE ON party_diners
+  FOR EACH ROW EXECUTE FUNCTION redetect_party_match_on_diner_removed();